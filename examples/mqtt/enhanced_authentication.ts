@@ -3,18 +3,28 @@
  */
 import { mqtt } from "@bernd/ts-zeug";
 
+// Answers every challenge of the server with the received data,
+// replace it with the implementation of the authentication method
+const authenticationProvider: mqtt.AuthenticationProvider = {
+  method: "something",
+  start() {
+    return Promise.resolve(undefined);
+  },
+  continue(data) {
+    return Promise.resolve(data);
+  },
+};
+
 await using client = new mqtt.Client(
   "mqtt://localhost",
   {
     keepalive: 10 as mqtt.Seconds,
     username: "some_user",
     client_id: mqtt.asClientID("some_client"),
-    properties: {
-      authentication_method: "something",
-    },
   },
   {
     publishDeserializeOptions: mqtt.PublishDeserializeOptions.UTF8String,
+    authenticationProvider,
   },
 );
 
@@ -26,19 +36,6 @@ Deno.addSignalListener("SIGINT", () => {
 try {
   for await (const p of client.readable) {
     switch (p.type) {
-      case mqtt.ControlPacketType.Auth:
-        mqtt.logPacket(p);
-        if (p.reason_code !== mqtt.AuthReasonCode.Continue_authentication) {
-          console.error("got an unexpected reason_code in an auth packet", p);
-          break;
-        }
-        if (!p.properties?.authentication_data) {
-          console.error("got an auth packet without authentication data", p);
-          break;
-        }
-        await client.auth(p);
-
-        break;
       case mqtt.ControlPacketType.ConnAck: {
         mqtt.logPacket(p);
         if (p.connect_reason_code !== mqtt.ConnectReasonCode.Success) {
@@ -22,35 +22,36 @@ Deno.addSignalListener("SIGINT", () => {
   client.close();
 });
 
+client.addEventListener("statechange", (event) => {
+  console.log(`%c${event.previous} -> ${event.state}`, "color: gray");
+});
+
+// The client replays the subscriptions itself if the session was not resumed after a reconnect
+(async () => {
+  try {
+    await client.waitForConnected();
+    mqtt.logPacket(
+      await client.subscribe({
+        subscriptions: [{
+          topic: mqtt.asTopicFilter("#"),
+          retain_as_published: true,
+        }],
+        properties: { subscription_identifier: 5 },
+      }),
+    );
+    await client.publish({
+      topic: mqtt.asTopic("hi"),
+      payload: "wie gehts?".repeat(20),
+      retain: false,
+    });
+  } catch (e) {
+    console.log("publish error ", e);
+  }
+})();
+
 try {
   for await (const p of client.readable) {
     switch (p.type) {
-      case mqtt.ControlPacketType.ConnAck: {
-        mqtt.logPacket(p);
-        if (p.connect_reason_code !== mqtt.ConnectReasonCode.Success) {
-          console.error("%cCouldn't connect", "color: red", p);
-          break;
-        }
-        try {
-          mqtt.logPacket(
-            await client.subscribe({
-              subscriptions: [{
-                topic: mqtt.asTopicFilter("#"),
-                retain_as_published: true,
-              }],
-              properties: { subscription_identifier: 5 },
-            }),
-          );
-          await client.publish({
-            topic: mqtt.asTopic("hi"),
-            payload: "wie gehts?".repeat(20),
-            retain: false,
-          });
-        } catch (e) {
-          console.log("publish error ", e);
-        }
-        break;
-      }
       case mqtt.ControlPacketType.Publish: {
         if (p.payload === undefined) {
           console.log(
@@ -17,6 +17,7 @@ export function streamifyWebSocket(
 
 export class WebSocketSource {
   private _ws: WebSocket;
+  private _onClose?: () => void;
   constructor(ws: WebSocket) {
     this._ws = ws;
   }
@@ -24,6 +25,7 @@ export class WebSocketSource {
   start(controller: ReadableStreamDefaultController) {
     this._ws.onmessage = (event) => controller.enqueue(event.data);
     const onClose = () => controller.close();
+    this._onClose = onClose;
     this._ws.addEventListener("close", onClose, {
       once: true,
     });
@@ -35,6 +37,11 @@ export class WebSocketSource {
   }
 
   cancel() {
+    // the stream is already closed, the controller must not be used anymore
+    this._ws.onmessage = null;
+    if (this._onClose) {
+      this._ws.removeEventListener("close", this._onClose);
+    }
     this._ws.close();
   }
 }
@@ -0,0 +1,224 @@
+/**
+ * MQTT 5.0 enhanced authentication.
+ *
+ * @module
+ * @license MIT
+ * @copyright 2023-2026 Bernd Amend
+ */
+import type { AuthPacket, ConnAckPacket } from "./packets.ts";
+
+/**
+ * Drives the enhanced authentication exchange of the Client.
+ * 4.12 https://docs.oasis-open.org/mqtt/mqtt/v5.0/os/mqtt-v5.0-os.html#_Toc3901256
+ *
+ * The Client calls start() for every connection attempt and re-authentication,
+ * continue() for every AUTH packet with the reason code Continue_authentication
+ * and complete() once the server accepted the authentication.
+ * Throwing an exception aborts the exchange and closes the connection with a DISCONNECT Not_authorized,
+ * an AuthenticationError can specify another reason code.
+ */
+export interface AuthenticationProvider {
+  /** The authentication_method sent to the server, e.g. SCRAM-SHA-256. */
+  readonly method: string;
+  /**
+   * Starts a new exchange.
+   * @returns the authentication_data of the CONNECT or the re-authentication AUTH packet
+   */
+  start(): Promise<Uint8Array | undefined>;
+  /**
+   * Answers a challenge of the server.
+   * @param data the authentication_data of the received AUTH packet
+   * @param packet the received AUTH packet
+   * @returns the authentication_data of the AUTH packet sent to the server
+   */
+  continue(
+    data: Uint8Array | undefined,
+    packet: AuthPacket,
+  ): Promise<Uint8Array | undefined>;
+  /**
+   * Optional, called when the server accepted the authentication, e.g. to verify the server.
+   * @param data the authentication_data of the received CONNACK or AUTH packet
+   * @param packet the received CONNACK or AUTH packet
+   */
+  complete?(
+    data: Uint8Array | undefined,
+    packet: ConnAckPacket | AuthPacket,
+  ): Promise<void>;
+}
+
+/** The hash functions supported by the ScramAuthenticationProvider. */
+export type ScramHash = "SHA-1" | "SHA-256";
+
+const textEncoder = new TextEncoder();
+const textDecoder = new TextDecoder();
+
+function toBase64(data: Uint8Array): string {
+  return btoa(String.fromCharCode(...data));
+}
+
+function fromBase64(data: string): Uint8Array<ArrayBuffer> {
+  return Uint8Array.from(atob(data), (c) => c.charCodeAt(0));
+}
+
+/** RFC 5802 5.1 saslname, "=" and "," have to be escaped. */
+function escapeSaslName(name: string): string {
+  return name.replaceAll("=", "=3D").replaceAll(",", "=2C");
+}
+
+/** Parses the attributes of a SCRAM message, e.g. r=nonce,s=salt,i=4096 */
+function parseScramAttributes(message: string): Map<string, string> {
+  const ret = new Map<string, string>();
+  for (const attribute of message.split(",")) {
+    const separator = attribute.indexOf("=");
+    if (separator !== 1) {
+      throw new Error(`Invalid SCRAM attribute '${attribute}'`);
+    }
+    ret.set(attribute[0]!, attribute.substring(2));
+  }
+  return ret;
+}
+
+/**
+ * SCRAM-SHA-1 (RFC 5802) and SCRAM-SHA-256 (RFC 7677) authentication using WebCrypto.
+ * The client-first message is sent in the CONNECT, the client-final message answers the server-first message
+ * and the server signature of the server-final message is verified in complete().
+ * Channel binding is not supported and the username and password are not normalized with SASLprep.
+ * @example
+ * ```ts
+ * const client = new Client("mqtts://broker", { username: "user" }, {
+ *   authenticationProvider: new ScramAuthenticationProvider({
+ *     username: "user",
+ *     password: "pencil",
+ *   }),
+ * });
+ * ```
+ */
+export class ScramAuthenticationProvider implements AuthenticationProvider {
+  readonly method: string;
+  #clientFirstMessageBare?: string;
+  #clientNonce?: string;
+  #expectedServerSignature?: Uint8Array;
+
+  /**
+   * Creates a new ScramAuthenticationProvider.
+   * @param options - Configuration
+   * @param options.username - The username of the SCRAM exchange
+   * @param options.password - The password
+   * @param options.hash - The hash function, defaults to SHA-256
+   * @param options.nonce - Returns the client nonce, defaults to a random value. Only intended for tests.
+   */
+  constructor(
+    readonly options: {
+      username: string;
+      password: string;
+      hash?: ScramHash;
+      nonce?: () => string;
+    },
+  ) {
+    this.method = `SCRAM-${options.hash ?? "SHA-256"}`;
+  }
+
+  start(): Promise<Uint8Array | undefined> {
+    this.#clientNonce = this.options.nonce?.() ??
+      toBase64(crypto.getRandomValues(new Uint8Array(18)));
+    this.#clientFirstMessageBare = `n=${
+      escapeSaslName(this.options.username)
+    },r=${this.#clientNonce}`;
+    this.#expectedServerSignature = undefined;
+    // gs2-header "n,," no channel binding and no authzid
+    return Promise.resolve(
+      textEncoder.encode(`n,,${this.#clientFirstMessageBare}`),
+    );
+  }
+
+  async continue(data: Uint8Array | undefined): Promise<Uint8Array> {
+    if (this.#clientFirstMessageBare === undefined || data === undefined) {
+      throw new Error("SCRAM: unexpected server-first message");
+    }
+    const serverFirstMessage = textDecoder.decode(data);
+    const attributes = parseScramAttributes(serverFirstMessage);
+    const nonce = attributes.get("r");
+    const salt = attributes.get("s");
+    const iterations = Number.parseInt(attributes.get("i") ?? "");
+    if (
+      nonce === undefined || !nonce.startsWith(this.#clientNonce!) ||
+      nonce.length === this.#clientNonce!.length
+    ) {
+      throw new Error("SCRAM: invalid server nonce");
+    }
+    if (salt === undefined || !(iterations > 0)) {
+      throw new Error(
+        `SCRAM: invalid server-first message '${serverFirstMessage}'`,
+      );
+    }
+
+    const hash = this.options.hash ?? "SHA-256";
+    const saltedPassword = new Uint8Array(
+      await crypto.subtle.deriveBits(
+        { name: "PBKDF2", hash, salt: fromBase64(salt), iterations },
+        await crypto.subtle.importKey(
+          "raw",
+          textEncoder.encode(this.options.password),
+          "PBKDF2",
+          false,
+          ["deriveBits"],
+        ),
+        hash === "SHA-1" ? 160 : 256,
+      ),
+    );
+    const hmac = async (key: Uint8Array<ArrayBuffer>, message: string) =>
+      new Uint8Array(
+        await crypto.subtle.sign(
+          "HMAC",
+          await crypto.subtle.importKey(
+            "raw",
+            key,
+            { name: "HMAC", hash },
+            false,
+            ["sign"],
+          ),
+          textEncoder.encode(message),
+        ),
+      );
+
+    // c=biws is the base64 encoded gs2-header "n,,"
+    const clientFinalMessageWithoutProof = `c=biws,r=${nonce}`;
+    const authMessage =
+      `${this.#clientFirstMessageBare},${serverFirstMessage},${clientFinalMessageWithoutProof}`;
+    const clientKey = await hmac(saltedPassword, "Client Key");
+    const storedKey = new Uint8Array(
+      await crypto.subtle.digest(hash, clientKey),
+    );
+    const clientSignature = await hmac(storedKey, authMessage);
+    const clientProof = clientKey.map((v, i) => v ^ clientSignature[i]!);
+    this.#expectedServerSignature = await hmac(
+      await hmac(saltedPassword, "Server Key"),
+      authMessage,
+    );
+    this.#clientFirstMessageBare = undefined;
+
+    return textEncoder.encode(
+      `${clientFinalMessageWithoutProof},p=${toBase64(clientProof)}`,
+    );
+  }
+
+  complete(data: Uint8Array | undefined): Promise<void> {
+    const expected = this.#expectedServerSignature;
+    this.#expectedServerSignature = undefined;
+    if (expected === undefined || data === undefined) {
+      return Promise.reject(
+        new Error("SCRAM: the server didn't complete the exchange"),
+      );
+    }
+    const attributes = parseScramAttributes(textDecoder.decode(data));
+    const error = attributes.get("e");
+    if (error !== undefined) {
+      return Promise.reject(new Error(`SCRAM: server error '${error}'`));
+    }
+    const signature = attributes.get("v");
+    if (signature === undefined || signature !== toBase64(expected)) {
+      return Promise.reject(new Error("SCRAM: invalid server signature"));
+    }
+    return Promise.resolve();
+  }
+}
@@ -0,0 +1,92 @@
+/**
+ * Copyright 2023-2026 Bernd Amend. MIT license.
+ */
+import { assertEquals, assertRejects } from "@std/assert";
+import * as m from "./mod.ts";
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+async function scramExchange(
+  hash: m.ScramHash,
+  nonce: string,
+  serverFirst: string,
+  serverFinal: string,
+) {
+  const provider = new m.ScramAuthenticationProvider({
+    username: "user",
+    password: "pencil",
+    hash,
+    nonce: () => nonce,
+  });
+  const clientFirst = decoder.decode(await provider.start());
+  const clientFinal = decoder.decode(
+    await provider.continue(encoder.encode(serverFirst)),
+  );
+  await provider.complete(encoder.encode(serverFinal));
+  return { method: provider.method, clientFirst, clientFinal };
+}
+
+Deno.test("ScramAuthenticationProvider SCRAM-SHA-1 RFC 5802 test vector", async () => {
+  assertEquals(
+    await scramExchange(
+      "SHA-1",
+      "fyko+d2lbbFgONRv9qkxdawL",
+      "r=fyko+d2lbbFgONRv9qkxdawL3rfcNHYJY1ZVvWVs7j,s=QSXCR+Q6sek8bf92,i=4096",
+      "v=rmF9pqV8S7suAoZWja4dJRkFsKQ=",
+    ),
+    {
+      method: "SCRAM-SHA-1",
+      clientFirst: "n,,n=user,r=fyko+d2lbbFgONRv9qkxdawL",
+      clientFinal:
+        "c=biws,r=fyko+d2lbbFgONRv9qkxdawL3rfcNHYJY1ZVvWVs7j,p=v0X8v3Bz2T0CJGbJQyF0X+HI4Ts=",
+    },
+  );
+});
+
+Deno.test("ScramAuthenticationProvider SCRAM-SHA-256 RFC 7677 test vector", async () => {
+  assertEquals(
+    await scramExchange(
+      "SHA-256",
+      "rOprNGfwEbeRWgbNEkqO",
+      "r=rOprNGfwEbeRWgbNEkqO%hvYDpWUa2RaTCAfuxFIlj)hNlF$k0,s=W22ZaJ0SNY7soEsUEjb6gQ==,i=4096",
+      "v=6rriTRBi23WpRR/wtup+mMhUZUn/dB5nLTJRsjl95G4=",
+    ),
+    {
+      method: "SCRAM-SHA-256",
+      clientFirst: "n,,n=user,r=rOprNGfwEbeRWgbNEkqO",
+      clientFinal:
+        "c=biws,r=rOprNGfwEbeRWgbNEkqO%hvYDpWUa2RaTCAfuxFIlj)hNlF$k0,p=dHzbZapWIk4jUhN+Ute9ytag9zjfMHgsqmmiz7AndVQ=",
+    },
+  );
+});
+
+Deno.test("ScramAuthenticationProvider rejects invalid server messages", async () => {
+  const provider = new m.ScramAuthenticationProvider({
+    username: "user",
+    password: "pencil",
+    nonce: () => "abc",
+  });
+  await provider.start();
+  await assertRejects(
+    () => provider.continue(encoder.encode("r=xyz123,s=QSXCR+Q6sek8bf92,i=1")),
+    Error,
+    "invalid server nonce",
+  );
+
+  await provider.start();
+  await provider.continue(encoder.encode("r=abc123,s=QSXCR+Q6sek8bf92,i=1"));
+  await assertRejects(
+    () => provider.complete(encoder.encode("v=AAAA")),
+    Error,
+    "invalid server signature",
+  );
+
+  await provider.start();
+  await provider.continue(encoder.encode("r=abc123,s=QSXCR+Q6sek8bf92,i=1"));
+  await assertRejects(
+    () => provider.complete(encoder.encode("e=invalid-proof")),
+    Error,
+    "invalid-proof",
+  );
+});
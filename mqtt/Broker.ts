@@ -0,0 +1,1124 @@
+/**
+ * Embeddable MQTT 5.0 and 3.1.1 broker.
+ *
+ * @module
+ * @license MIT
+ * @copyright 2023-2026 Bernd Amend
+ */
+import { DataReader, deadline, nanoid } from "../helper/mod.ts";
+import { WebSocketSink, WebSocketSource } from "../helper/websocket.ts";
+import {
+  type AllPacket,
+  asClientID,
+  type ClientID,
+  type ConnectPacket,
+  ConnectReasonCode,
+  ControlPacketType,
+  type DisconnectPacket,
+  DisconnectReasonCode,
+  type Milliseconds,
+  type PacketIdentifier,
+  ProtocolVersion,
+  PubAckReasonCode,
+  PubCompReasonCode,
+  type PublishPacket,
+  type PubRecPacket,
+  PubRecReasonCode,
+  PubRelReasonCode,
+  QoS,
+  RetainHandling,
+  type Seconds,
+  type SubscribePacket,
+  type Topic,
+  type TopicFilter,
+  UnsubAckReasonCode,
+  type UnsubscribePacket,
+} from "./packets.ts";
+import {
+  type MakeSerializePacketType,
+  serialize,
+  Writer,
+} from "./serialize.ts";
+import { DeserializeStream } from "./DeserializeStream.ts";
+import { MqttProtocolError, PacketTooLargeError } from "./errors.ts";
+import {
+  parseSharedSubscription,
+  SubscriptionTree,
+  topicMatchesFilter,
+} from "./TopicMatcher.ts";
+
+/** The byte streams of a connection, e.g. a Deno.Conn. */
+export type BrokerTransport = {
+  readable: ReadableStream<Uint8Array>;
+  writable: WritableStream<Uint8Array>;
+};
+
+/** Options of the Broker. */
+export type BrokerOptions = {
+  /** 3.2.2.3.3 The number of unacknowledged QoS 2 publishes a client may send. */
+  receiveMaximum?: number;
+  /** 3.2.2.3.4 The highest QoS of publishes the broker accepts. */
+  maximumQoS?: QoS;
+  /** 3.2.2.3.8 The highest topic alias the clients may use, 0 disables topic aliases. */
+  topicAliasMaximum?: number;
+  /** 3.2.2.3.14 If set, the keepalive of the clients is replaced with this value. */
+  serverKeepAlive?: Seconds;
+  /** The highest session_expiry_interval granted to the clients. */
+  maximumSessionExpiryInterval?: Seconds;
+  /** The number of QoS 1 and QoS 2 publishes queued per session, the oldest ones are dropped. */
+  maximumQueueSize?: number;
+  /**
+   * The number of bytes written to a connection that the client didn't read yet.
+   * A client that reads slower is disconnected with Quota_exceeded, instead of buffering without a limit.
+   */
+  maximumPendingBytes?: number;
+  /** Time in milliseconds a new connection has to send the CONNECT packet. */
+  connectTimeout?: Milliseconds;
+  /**
+   * Decides if a client may connect, a reason code other than Success rejects the connection.
+   * Enhanced authentication (4.12) is not supported, CONNECT packets with an authentication_method are rejected.
+   */
+  authenticate?: (
+    packet: ConnectPacket,
+  ) => ConnectReasonCode | Promise<ConnectReasonCode>;
+};
+
+/** Default values for BrokerOptions. */
+export const DefaultBrokerOptions: Required<
+  Omit<BrokerOptions, "serverKeepAlive" | "authenticate">
+> = {
+  receiveMaximum: 65535,
+  maximumQoS: QoS.Exactly_once_delivery,
+  topicAliasMaximum: 10,
+  maximumSessionExpiryInterval: 0xFFFFFFFF as Seconds,
+  maximumQueueSize: 1000,
+  maximumPendingBytes: 1024 * 1024,
+  connectTimeout: 10_000 as Milliseconds,
+};
+
+/** 3.1.2.11.2 A session with this session_expiry_interval doesn't expire. */
+const NeverExpires = 0xFFFFFFFF;
+
+/** The maximum delay of setTimeout. */
+const MaximumTimeout = 2 ** 31 - 1;
+
+/**
+ * Calls the callback after the delay, also for delays above the maximum delay of setTimeout.
+ */
+function startTimer(callback: () => void, ms: number): { cancel(): void } {
+  const end = Date.now() + ms;
+  let id: ReturnType<typeof setTimeout>;
+  const schedule = () => {
+    const remaining = end - Date.now();
+    id = remaining > MaximumTimeout
+      ? setTimeout(schedule, MaximumTimeout)
+      : setTimeout(callback, remaining);
+  };
+  schedule();
+  return { cancel: () => clearTimeout(id) };
+}
+
+type SubscriptionEntry = {
+  session: BrokerSession;
+  /** The topic filter of the subscription, including the $share prefix. */
+  filter: TopicFilter;
+  shareName?: string;
+  subscription: SubscribePacket["subscriptions"][number];
+  subscription_identifier?: number;
+};
+
+type QueuedPublish = {
+  packet: PublishPacket;
+  /** Date.now() based time the message expires, 3.3.2.3.3 */
+  expiresAt?: number;
+};
+
+/**
+ * 3.3.2.3.3 Sets the remaining message_expiry_interval.
+ * @returns the packet or undefined if the message expired
+ */
+function withRemainingExpiry(
+  { packet, expiresAt }: QueuedPublish,
+): PublishPacket | undefined {
+  if (expiresAt === undefined) {
+    return packet;
+  }
+  const remaining = Math.ceil((expiresAt - Date.now()) / 1000);
+  if (remaining <= 0) {
+    return undefined;
+  }
+  return {
+    ...packet,
+    properties: {
+      ...packet.properties,
+      message_expiry_interval: remaining as Seconds,
+    },
+  };
+}
+
+/**
+ * A network connection of a client.
+ */
+class BrokerConnection {
+  readonly writer = new Writer();
+  /** Set after the CONNACK was sent. */
+  session?: BrokerSession;
+  /** 3.1.2.11.3 The number of unacknowledged QoS 1 and QoS 2 publishes the client accepts. */
+  receiveMaximum = 65535;
+  closed = false;
+  /** Set after the connection was removed from its session. */
+  detached = false;
+  #keepAlive = 0;
+  #keepAliveTimeout?: ReturnType<typeof setTimeout>;
+  /** The bytes of the writes that didn't complete yet. */
+  #pendingBytes = 0;
+
+  constructor(
+    readonly writable: WritableStreamDefaultWriter<Uint8Array>,
+    readonly reader: ReadableStreamDefaultReader<AllPacket>,
+    readonly maximumPendingBytes: number,
+  ) {}
+
+  /**
+   * Serializes and sends the packet.
+   * Disconnects the client if it doesn't read the packets fast enough.
+   * @returns false if the connection is closed or the packet exceeds the maximum_packet_size of the client
+   */
+  send(packet: AllPacket): boolean {
+    if (this.closed) {
+      return false;
+    }
+    let data: Uint8Array;
+    try {
+      data = serialize(packet, this.writer);
+    } catch (e) {
+      // 3.1.2.11.4 packets exceeding the maximum_packet_size are discarded
+      if (e instanceof PacketTooLargeError) {
+        return false;
+      }
+      throw e;
+    }
+    const size = data.byteLength;
+    if (
+      packet.type !== ControlPacketType.Disconnect && this.#pendingBytes > 0 &&
+      this.#pendingBytes + size > this.maximumPendingBytes
+    ) {
+      this.disconnect(
+        DisconnectReasonCode.Quota_exceeded,
+        `More than ${this.maximumPendingBytes} bytes are not read by the client`,
+      );
+      return false;
+    }
+    this.#pendingBytes += size;
+    this.writable.write(data).then(
+      () => this.#pendingBytes -= size,
+      () => this.close(),
+    );
+    return true;
+  }
+
+  /**
+   * 3.1.2.10 Closes the connection if no packet is received within one and a half times the keepalive.
+   * @param seconds - The keepalive, 0 disables the check
+   */
+  keepAlive(seconds: number) {
+    this.#keepAlive = seconds;
+    this.touch();
+  }
+
+  /** Restarts the keepalive check, called for every received packet. */
+  touch() {
+    clearTimeout(this.#keepAliveTimeout);
+    if (this.#keepAlive === 0 || this.closed) {
+      return;
+    }
+    this.#keepAliveTimeout = setTimeout(
+      () => this.disconnect(DisconnectReasonCode.Keep_Alive_timeout),
+      this.#keepAlive * 1500,
+    );
+  }
+
+  /**
+   * Sends a DISCONNECT, if the client uses MQTT 5 and is connected, and closes the connection.
+   */
+  disconnect(reason_code: DisconnectReasonCode, reason_string?: string) {
+    if (
+      this.session !== undefined &&
+      this.writer.protocolVersion === ProtocolVersion.MQTT_5
+    ) {
+      this.send({
+        type: ControlPacketType.Disconnect,
+        reason_code,
+        ...(reason_string && {
+          properties: { reason_string: reason_string.substring(0, 256) },
+        }),
+      });
+    }
+    this.close();
+  }
+
+  /** Closes the connection after the pending writes. */
+  close() {
+    if (this.closed) {
+      return;
+    }
+    this.closed = true;
+    clearTimeout(this.#keepAliveTimeout);
+    this.writable.close().catch(() => {});
+    this.reader.cancel().catch(() => {});
+  }
+}
+
+/**
+ * 4.1 The session state of a client, it outlives the connection until the session expires.
+ */
+class BrokerSession {
+  connection?: BrokerConnection;
+  readonly subscriptions = new Map<TopicFilter, SubscriptionEntry>();
+  /** The outgoing QoS 1 and QoS 2 publishes waiting for the acknowledgement. */
+  readonly inflight = new Map<
+    PacketIdentifier,
+    { packet: PublishPacket; released: boolean }
+  >();
+  /** The incoming QoS 2 publishes waiting for the PUBREL. */
+  readonly incoming = new Set<PacketIdentifier>();
+  /** The QoS 1 and QoS 2 publishes waiting for the connection or the receive_maximum of the client. */
+  readonly queue: QueuedPublish[] = [];
+  expiryInterval = 0;
+  expiryTimer?: { cancel(): void };
+  will?: ConnectPacket["will"];
+  willTimer?: { cancel(): void };
+  #nextPacketIdentifier = 1;
+
+  constructor(
+    readonly client_id: ClientID,
+    readonly maximumQueueSize: number,
+  ) {}
+
+  /** Sends or queues the publish. QoS 0 publishes are dropped while the client is not connected. */
+  deliver(message: QueuedPublish) {
+    if ((message.packet.qos ?? QoS.At_most_once_delivery) === 0) {
+      const packet = withRemainingExpiry(message);
+      if (packet) {
+        this.connection?.send(packet);
+      }
+      return;
+    }
+    if (this.queue.length >= this.maximumQueueSize) {
+      this.queue.shift();
+    }
+    this.queue.push(message);
+    this.flush();
+  }
+
+  /** Sends the queued publishes until the receive_maximum of the client is reached. */
+  flush() {
+    const connection = this.connection;
+    if (connection === undefined) {
+      return;
+    }
+    while (
+      !connection.closed && this.queue.length > 0 &&
+      this.inflight.size < connection.receiveMaximum
+    ) {
+      const packet = withRemainingExpiry(this.queue.shift()!);
+      if (packet === undefined) {
+        continue;
+      }
+      const p = { ...packet, packet_identifier: this.#packetIdentifier() };
+      if (connection.send(p)) {
+        this.inflight.set(p.packet_identifier, { packet: p, released: false });
+      }
+    }
+  }
+
+  /** 4.4 Retransmits the unacknowledged publishes and PUBRELs after the session was resumed. */
+  resend() {
+    for (const [packet_identifier, { packet, released }] of this.inflight) {
+      this.connection?.send(
+        released
+          ? { type: ControlPacketType.PubRel, packet_identifier }
+          : { ...packet, dup: true },
+      );
+    }
+    this.flush();
+  }
+
+  /** Completes the delivery of an outgoing publish. */
+  acknowledge(packet_identifier: PacketIdentifier) {
+    if (this.inflight.delete(packet_identifier)) {
+      this.flush();
+    }
+  }
+
+  cancelTimers() {
+    this.expiryTimer?.cancel();
+    this.expiryTimer = undefined;
+    this.willTimer?.cancel();
+    this.willTimer = undefined;
+  }
+
+  #packetIdentifier(): PacketIdentifier {
+    // the receive_maximum limits the in-flight publishes to 65535, there is always a free one
+    while (true) {
+      const id = this.#nextPacketIdentifier as PacketIdentifier;
+      this.#nextPacketIdentifier = id === 65535 ? 1 : id + 1;
+      if (!this.inflight.has(id)) {
+        return id;
+      }
+    }
+  }
+}
+
+/**
+ * An MQTT broker that can be embedded into an application, e.g. for integration tests or small edge deployments.
+ * It supports:
+ *  - MQTT 5 and MQTT 3.1.1 clients
+ *  - TCP, unix socket and WebSocket connections, or any other transport passed to handleConnection
+ *  - sessions that are resumed if the client connects with clean_start false, they expire after the session_expiry_interval
+ *  - subscriptions with wildcards, shared subscriptions, subscription identifiers and the subscription options
+ *  - retained messages and message expiry
+ *  - will messages, delayed by the will_delay_interval
+ *  - QoS 0, 1 and 2 in both directions, limited by the receive_maximum of the client
+ *  - closing connections that exceed one and a half times the keepalive
+ * @example
+ * ```ts
+ * await using broker = new Broker();
+ * const addr = broker.listen("mqtt://127.0.0.1:1883");
+ * Deno.serve((request) => broker.upgradeWebSocket(request));
+ * ```
+ */
+export class Broker implements AsyncDisposable {
+  readonly #options: typeof DefaultBrokerOptions & BrokerOptions;
+  readonly #sessions = new Map<ClientID, BrokerSession>();
+  readonly #subscriptions = new SubscriptionTree<SubscriptionEntry>();
+  readonly #retained = new Map<Topic, QueuedPublish>();
+  readonly #connections = new Set<BrokerConnection>();
+  readonly #listeners: Deno.Listener[] = [];
+  readonly #servers: Deno.HttpServer[] = [];
+  readonly #tasks = new Set<Promise<void>>();
+  /** Selects the receiving session of shared subscriptions in turn. */
+  #sharedIndex = 0;
+
+  /**
+   * Creates a new Broker, use listen(), upgradeWebSocket() or handleConnection() to accept connections.
+   * @param options Values that are not set are set to DefaultBrokerOptions.
+   */
+  constructor(options?: BrokerOptions) {
+    this.#options = { ...DefaultBrokerOptions, ...options };
+  }
+
+  /**
+   * Accepts connections on the address.
+   * Supported protocols:
+   *   TCP: mqtt://hostname[:port], tcp://hostname[:port]
+   *   WebSocket: ws://hostname[:port]
+   *   Unix Domain Socket: unix:///tmp/mosquitto.sock
+   * @param address the address to listen on, port 0 selects a free port
+   * @returns the address the broker listens on
+   * @throws if the protocol is not supported or the address can't be used
+   */
+  listen(address: URL | string): Deno.Addr {
+    if (typeof address === "string") {
+      address = new URL(address);
+    }
+    switch (address.protocol) {
+      case "mqtt:":
+      case "tcp:": {
+        const listener = Deno.listen({
+          hostname: address.hostname || "0.0.0.0",
+          port: address.port === "" ? 1883 : Number.parseInt(address.port),
+          transport: "tcp",
+        });
+        this.#accept(listener, true);
+        return listener.addr;
+      }
+      case "unix:": {
+        const listener = Deno.listen({
+          path: address.pathname,
+          transport: "unix",
+        });
+        this.#accept(listener, false);
+        return listener.addr;
+      }
+      case "ws:": {
+        const server = Deno.serve({
+          hostname: address.hostname || "0.0.0.0",
+          port: address.port === "" ? 80 : Number.parseInt(address.port),
+          onListen: () => {},
+        }, (request) => this.upgradeWebSocket(request));
+        this.#servers.push(server);
+        return server.addr;
+      }
+    }
+    throw new Error(`Unsupported protocol ${address.protocol}`);
+  }
+
+  /**
+   * Upgrades an HTTP request to a WebSocket connection of the broker,
+   * to serve MQTT over WebSockets from an existing HTTP server.
+   * @param request the request of the client
+   * @returns the response that has to be returned to the client, 426 if the request isn't a WebSocket upgrade
+   */
+  upgradeWebSocket(request: Request): Response {
+    if (request.headers.get("upgrade")?.toLowerCase() !== "websocket") {
+      return new Response("MQTT over WebSocket", { status: 426 });
+    }
+    // 6 the subprotocol is "mqtt", it is only confirmed if the client requested it
+    const requested = request.headers.get("sec-websocket-protocol")?.split(",")
+      .map((p) => p.trim());
+    const { socket, response } = Deno.upgradeWebSocket(
+      request,
+      requested?.includes("mqtt") ? { protocol: "mqtt" } : undefined,
+    );
+    socket.binaryType = "arraybuffer";
+    this.#track(this.handleConnection({
+      readable: new ReadableStream<ArrayBuffer>(new WebSocketSource(socket))
+        .pipeThrough(
+          new TransformStream<ArrayBuffer, Uint8Array>({
+            transform(chunk, controller) {
+              controller.enqueue(new Uint8Array(chunk));
+            },
+          }),
+        ),
+      writable: new WritableStream(new WebSocketSink(socket)),
+    }));
+    return response;
+  }
+
+  /**
+   * Serves a client on an established connection, e.g. a Deno.Conn or an in-memory transport.
+   * @param transport the byte streams of the connection
+   * @returns a promise that resolves when the connection was closed
+   */
+  async handleConnection(transport: BrokerTransport): Promise<void> {
+    const reader = transport.readable.pipeThrough(
+      new TransformStream(
+        new DeserializeStream({
+          topicAliasMaximum: this.#options.topicAliasMaximum,
+        }),
+      ),
+    ).getReader();
+    const connection = new BrokerConnection(
+      transport.writable.getWriter(),
+      reader,
+      this.#options.maximumPendingBytes,
+    );
+    this.#connections.add(connection);
+    let publishWill = true;
+    try {
+      const first = await deadline(
+        reader.read(),
+        this.#options.connectTimeout,
+      );
+      // 3.1 the first packet has to be a CONNECT packet
+      if (first.done || first.value.type !== ControlPacketType.Connect) {
+        return;
+      }
+      if (!await this.#connect(connection, first.value)) {
+        return;
+      }
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) {
+          break;
+        }
+        connection.touch();
+        if (value.type === ControlPacketType.Disconnect) {
+          publishWill = this.#disconnect(connection, value);
+          break;
+        }
+        this.#dispatch(connection, value);
+      }
+    } catch (e) {
+      // 4.13 the connection is closed after a protocol violation, all other errors closed it already
+      if (e instanceof MqttProtocolError) {
+        connection.disconnect(e.reason_code, e.message);
+      }
+    } finally {
+      connection.close();
+      this.#connections.delete(connection);
+      this.#detach(connection, publishWill);
+    }
+  }
+
+  /**
+   * Publishes a message to the subscribed clients, as if a client had published it.
+   * @param packet the publish, packet_identifier and dup are ignored
+   * @returns true if at least one subscription matched
+   */
+  publish(packet: MakeSerializePacketType<PublishPacket>): boolean {
+    return this.#publish({ ...packet, type: ControlPacketType.Publish });
+  }
+
+  /**
+   * Stops listening and closes all connections, the sessions and retained messages are discarded.
+   */
+  async close() {
+    for (const listener of this.#listeners.splice(0)) {
+      listener.close();
+    }
+    for (const connection of this.#connections) {
+      connection.disconnect(DisconnectReasonCode.Server_shutting_down);
+    }
+    await Promise.all(this.#servers.splice(0).map((s) => s.shutdown()));
+    await Promise.all(this.#tasks);
+    for (const session of this.#sessions.values()) {
+      session.cancelTimers();
+    }
+    this.#sessions.clear();
+    this.#subscriptions.clear();
+    this.#retained.clear();
+  }
+
+  /** Closes the broker. */
+  async [Symbol.asyncDispose]() {
+    await this.close();
+  }
+
+  #track(task: Promise<void>) {
+    const tracked = task.catch(() => {}).finally(() =>
+      this.#tasks.delete(tracked)
+    );
+    this.#tasks.add(tracked);
+  }
+
+  #accept(listener: Deno.Listener, tcp: boolean) {
+    this.#listeners.push(listener);
+    this.#track((async () => {
+      try {
+        for await (const conn of listener) {
+          if (tcp) {
+            (conn as Deno.TcpConn).setNoDelay(true);
+          }
+          this.#track(
+            this.handleConnection(conn).finally(() => {
+              try {
+                conn.close();
+              } catch {
+                // already closed by the streams
+              }
+            }),
+          );
+        }
+      } catch {
+        // the listener was closed
+      }
+    })());
+  }
+
+  /**
+   * 3.1.4 Answers the CONNECT packet and attaches the connection to the new or resumed session.
+   * @returns false if the connection was rejected
+   */
+  async #connect(
+    connection: BrokerConnection,
+    packet: ConnectPacket,
+  ): Promise<boolean> {
+    const protocolVersion = packet.protocol_version ?? ProtocolVersion.MQTT_5;
+    connection.writer.protocolVersion = protocolVersion;
+    const clean_start = packet.clean_start ?? true;
+    let client_id = packet.client_id ?? "" as ClientID;
+    let assigned_client_id: ClientID | undefined;
+    let reason_code = ConnectReasonCode.Success;
+    if (packet.properties?.authentication_method !== undefined) {
+      reason_code = ConnectReasonCode.Bad_authentication_method;
+    } else if (client_id === "") {
+      if (protocolVersion === ProtocolVersion.MQTT_3_1_1 && !clean_start) {
+        // MQTT 3.1.1 3.1.3.1 an empty client id requires a clean session
+        reason_code = ConnectReasonCode.Client_Identifier_not_valid;
+      } else {
+        client_id = assigned_client_id = asClientID(nanoid());
+      }
+    }
+    if (reason_code === ConnectReasonCode.Success) {
+      reason_code = (await this.#options.authenticate?.(packet)) ??
+        ConnectReasonCode.Success;
+    }
+    if (reason_code !== ConnectReasonCode.Success) {
+      connection.send({
+        type: ControlPacketType.ConnAck,
+        connect_reason_code: reason_code,
+      });
+      return false;
+    }
+    if (connection.closed) {
+      return false;
+    }
+
+    const previous = this.#sessions.get(client_id)?.connection;
+    if (previous) {
+      // 3.1.4 the existing connection of the client is closed
+      previous.disconnect(DisconnectReasonCode.Session_taken_over);
+      this.#detach(previous, true);
+    }
+
+    let session = this.#sessions.get(client_id);
+    if (session && clean_start) {
+      this.#endSession(session);
+      session = undefined;
+    }
+    const session_present = session !== undefined;
+    if (session === undefined) {
+      session = new BrokerSession(client_id, this.#options.maximumQueueSize);
+      this.#sessions.set(client_id, session);
+    }
+    // 3.1.3.2.2 the will of the previous connection isn't sent if the session is resumed in time
+    session.cancelTimers();
+    session.will = packet.will;
+
+    const requestedExpiry = protocolVersion === ProtocolVersion.MQTT_3_1_1
+      ? (clean_start ? 0 : NeverExpires)
+      : packet.properties?.session_expiry_interval ?? 0;
+    session.expiryInterval = Math.min(
+      requestedExpiry,
+      this.#options.maximumSessionExpiryInterval,
+    );
+    connection.receiveMaximum = packet.properties?.receive_maximum ?? 65535;
+    connection.writer.maximumPacketSize = packet.properties
+      ?.maximum_packet_size;
+    session.connection = connection;
+    connection.session = session;
+
+    connection.send({
+      type: ControlPacketType.ConnAck,
+      session_present,
+      properties: {
+        ...(session.expiryInterval !== requestedExpiry && {
+          session_expiry_interval: session.expiryInterval as Seconds,
+        }),
+        receive_maximum: this.#options.receiveMaximum,
+        ...(this.#options.maximumQoS !== QoS.Exactly_once_delivery && {
+          maximum_QoS: this.#options.maximumQoS,
+        }),
+        assigned_client_id,
+        topic_alias_maximum: this.#options.topicAliasMaximum,
+        server_keep_alive: this.#options.serverKeepAlive,
+      },
+    });
+    connection.keepAlive(
+      this.#options.serverKeepAlive ?? packet.keepalive ?? 0,
+    );
+    session.resend();
+    return true;
+  }
+
+  /**
+   * 3.14 Handles the DISCONNECT packet of the client.
+   * @returns true if the will has to be published
+   */
+  #disconnect(connection: BrokerConnection, packet: DisconnectPacket): boolean {
+    const session = connection.session!;
+    const interval = packet.properties?.session_expiry_interval;
+    if (interval !== undefined) {
+      if (session.expiryInterval === 0 && interval !== 0) {
+        throw new MqttProtocolError(
+          "The session_expiry_interval can't be set in the DISCONNECT if it was 0 in the CONNECT",
+        );
+      }
+      session.expiryInterval = Math.min(
+        interval,
+        this.#options.maximumSessionExpiryInterval,
+      );
+    }
+    return packet.reason_code ===
+      DisconnectReasonCode.Disconnect_with_Will_Message;
+  }
+
+  /**
+   * Removes the closed connection from its session, publishes or schedules the will and starts the session expiry.
+   */
+  #detach(connection: BrokerConnection, publishWill: boolean) {
+    if (connection.detached) {
+      return;
+    }
+    connection.detached = true;
+    const session = connection.session;
+    if (session === undefined || session.connection !== connection) {
+      return;
+    }
+    session.connection = undefined;
+    if (!publishWill) {
+      session.will = undefined;
+    }
+    // 3.1.3.2.2 the will is published after the will_delay_interval or when the session ends
+    const delay = session.will?.properties?.will_delay_interval ?? 0;
+    if (delay === 0) {
+      this.#publishWill(session);
+    } else {
+      session.willTimer = startTimer(
+        () => this.#publishWill(session),
+        delay * 1000,
+      );
+    }
+    if (session.expiryInterval === 0) {
+      this.#endSession(session);
+    } else if (session.expiryInterval !== NeverExpires) {
+      session.expiryTimer = startTimer(
+        () => this.#endSession(session),
+        session.expiryInterval * 1000,
+      );
+    }
+  }
+
+  #publishWill(session: BrokerSession) {
+    const will = session.will;
+    session.will = undefined;
+    session.willTimer?.cancel();
+    session.willTimer = undefined;
+    if (will === undefined) {
+      return;
+    }
+    const properties = { ...will.properties };
+    delete properties.will_delay_interval;
+    this.publish({
+      topic: will.topic,
+      payload: will.payload,
+      qos: will.qos,
+      retain: will.retain,
+      properties,
+    });
+  }
+
+  #endSession(session: BrokerSession) {
+    session.cancelTimers();
+    this.#publishWill(session);
+    for (const entry of session.subscriptions.values()) {
+      this.#subscriptions.delete(entry.filter, entry);
+    }
+    session.subscriptions.clear();
+    if (this.#sessions.get(session.client_id) === session) {
+      this.#sessions.delete(session.client_id);
+    }
+  }
+
+  #dispatch(connection: BrokerConnection, packet: AllPacket) {
+    const session = connection.session!;
+    switch (packet.type) {
+      case ControlPacketType.Publish:
+        this.#receivePublish(connection, session, packet);
+        return;
+      case ControlPacketType.PubAck:
+      case ControlPacketType.PubComp:
+        session.acknowledge(packet.packet_identifier);
+        return;
+      case ControlPacketType.PubRec:
+        this.#receivePubRec(connection, session, packet);
+        return;
+      case ControlPacketType.PubRel:
+        // 4.3.3 the publish was forwarded when it was received
+        connection.send({
+          type: ControlPacketType.PubComp,
+          packet_identifier: packet.packet_identifier,
+          reason_code: session.incoming.delete(packet.packet_identifier)
+            ? PubCompReasonCode.Success
+            : PubCompReasonCode.Packet_Identifier_not_found,
+        });
+        return;
+      case ControlPacketType.Subscribe:
+        this.#subscribe(connection, session, packet);
+        return;
+      case ControlPacketType.Unsubscribe:
+        this.#unsubscribe(connection, session, packet);
+        return;
+      case ControlPacketType.PingReq:
+        connection.send({ type: ControlPacketType.PingResp });
+        return;
+    }
+    throw new MqttProtocolError(
+      `Received the unexpected ${ControlPacketType[packet.type]} packet`,
+    );
+  }
+
+  /**
+   * 4.3 Forwards the publish of a client and acknowledges it.
+   * QoS 2 publishes are forwarded on receipt, duplicates are detected with the packet_identifier until the PUBREL.
+   */
+  #receivePublish(
+    connection: BrokerConnection,
+    session: BrokerSession,
+    packet: PublishPacket,
+  ) {
+    const qos = packet.qos ?? QoS.At_most_once_delivery;
+    if (qos > this.#options.maximumQoS) {
+      throw new MqttProtocolError(
+        `The QoS ${qos} exceeds the maximum_QoS ${this.#options.maximumQoS}`,
+        DisconnectReasonCode.QoS_not_supported,
+      );
+    }
+    switch (qos) {
+      case QoS.At_most_once_delivery:
+        this.#publish(packet, session);
+        return;
+      case QoS.At_least_once_delivery:
+        connection.send({
+          type: ControlPacketType.PubAck,
+          packet_identifier: packet.packet_identifier!,
+          reason_code: this.#publish(packet, session)
+            ? PubAckReasonCode.Success
+            : PubAckReasonCode.No_matching_subscribers,
+        });
+        return;
+      case QoS.Exactly_once_delivery: {
+        const packet_identifier = packet.packet_identifier!;
+        let reason_code = PubRecReasonCode.Success;
+        if (!session.incoming.has(packet_identifier)) {
+          if (session.incoming.size >= this.#options.receiveMaximum) {
+            throw new MqttProtocolError(
+              `Received more than receive_maximum=${this.#options.receiveMaximum} unacknowledged QoS 2 publishes`,
+              DisconnectReasonCode.Receive_Maximum_exceeded,
+            );
+          }
+          session.incoming.add(packet_identifier);
+          if (!this.#publish(packet, session)) {
+            reason_code = PubRecReasonCode.No_matching_subscribers;
+          }
+        }
+        connection.send({
+          type: ControlPacketType.PubRec,
+          packet_identifier,
+          reason_code,
+        });
+        return;
+      }
+    }
+  }
+
+  #receivePubRec(
+    connection: BrokerConnection,
+    session: BrokerSession,
+    packet: PubRecPacket,
+  ) {
+    const entry = session.inflight.get(packet.packet_identifier);
+    if (entry === undefined) {
+      connection.send({
+        type: ControlPacketType.PubRel,
+        packet_identifier: packet.packet_identifier,
+        reason_code: PubRelReasonCode.Packet_Identifier_not_found,
+      });
+      return;
+    }
+    // 4.3.3 a failure reason code ends the flow
+    if ((packet.reason_code ?? PubRecReasonCode.Success) >= 0x80) {
+      session.acknowledge(packet.packet_identifier);
+      return;
+    }
+    entry.released = true;
+    connection.send({
+      type: ControlPacketType.PubRel,
+      packet_identifier: packet.packet_identifier,
+    });
+  }
+
+  /**
+   * Stores the retained message and sends the publish to all matching subscriptions.
+   * @param publisher the session of the publishing client, used for no_local
+   * @returns true if at least one subscription matched
+   */
+  #publish(packet: PublishPacket, publisher?: BrokerSession): boolean {
+    const properties = { ...packet.properties };
+    delete properties.topic_alias;
+    delete properties.subscription_identifier;
+    const interval = properties.message_expiry_interval;
+    const message: QueuedPublish = {
+      packet: {
+        type: ControlPacketType.Publish,
+        topic: packet.topic,
+        qos: packet.qos ?? QoS.At_most_once_delivery,
+        payload: packet.payload instanceof DataReader
+          ? packet.payload.asUint8Array().slice()
+          : packet.payload,
+        properties,
+      },
+      expiresAt: interval === undefined
+        ? undefined
+        : Date.now() + interval * 1000,
+    };
+
+    if (packet.retain) {
+      // 3.3.1.3 an empty payload removes the retained message
+      const payload = packet.payload;
+      if (
+        payload === undefined ||
+        (typeof payload === "string" ? payload.length : payload.byteLength) ===
+          0
+      ) {
+        this.#retained.delete(packet.topic);
+      } else {
+        this.#retained.set(packet.topic, message);
+      }
+    }
+
+    const deliveries = new Map<
+      BrokerSession,
+      { qos: QoS; retain: boolean; subscription_identifiers: number[] }
+    >();
+    const add = (entry: SubscriptionEntry) => {
+      const delivery = deliveries.get(entry.session) ??
+        {
+          qos: QoS.At_most_once_delivery,
+          retain: false,
+          subscription_identifiers: [],
+        };
+      // 3.3.4 overlapping subscriptions of a client are delivered once with the highest QoS
+      delivery.qos = Math.max(
+        delivery.qos,
+        Math.min(message.packet.qos!, entry.subscription.qos ?? 0),
+      );
+      // 3.3.1.3 the retain flag is only forwarded with retain_as_published
+      delivery.retain ||= (entry.subscription.retain_as_published ?? false) &&
+        (packet.retain ?? false);
+      if (entry.subscription_identifier !== undefined) {
+        delivery.subscription_identifiers.push(entry.subscription_identifier);
+      }
+      deliveries.set(entry.session, delivery);
+    };
+
+    const groups = new Map<TopicFilter, SubscriptionEntry[]>();
+    for (const entry of this.#subscriptions.match(packet.topic)) {
+      if (entry.shareName !== undefined) {
+        const group = groups.get(entry.filter);
+        if (group) {
+          group.push(entry);
+        } else {
+          groups.set(entry.filter, [entry]);
+        }
+      } else if (!entry.subscription.no_local || entry.session !== publisher) {
+        add(entry);
+      }
+    }
+    // 4.8.2 a message is only sent to one session of a shared subscription, connected sessions are preferred
+    for (const members of groups.values()) {
+      const connected = members.filter((e) => e.session.connection);
+      const candidates = connected.length > 0 ? connected : members;
+      add(candidates[this.#sharedIndex++ % candidates.length]!);
+    }
+
+    for (const [session, delivery] of deliveries) {
+      session.deliver({
+        packet: {
+          ...message.packet,
+          qos: delivery.qos,
+          retain: delivery.retain,
+          properties: delivery.subscription_identifiers.length > 0
+            ? {
+              ...properties,
+              subscription_identifier: delivery.subscription_identifiers,
+            }
+            : properties,
+        },
+        expiresAt: message.expiresAt,
+      });
+    }
+    return deliveries.size > 0;
+  }
+
+  /**
+   * 3.8.4 Adds or replaces the subscriptions, answers with a SUBACK and sends the matching retained messages.
+   */
+  #subscribe(
+    connection: BrokerConnection,
+    session: BrokerSession,
+    packet: SubscribePacket,
+  ) {
+    for (const subscription of packet.subscriptions) {
+      // 3.8.3.1 It is a Protocol Error to set the No Local bit to 1 on a Shared Subscription
+      if (
+        subscription.no_local &&
+        parseSharedSubscription(subscription.topic).shareName !== undefined
+      ) {
+        throw new MqttProtocolError(
+          `No Local can't be set on the shared subscription ${subscription.topic}`,
+          DisconnectReasonCode.Protocol_Error,
+        );
+      }
+    }
+    const retained: SubscriptionEntry[] = [];
+    const reason_codes = packet.subscriptions.map((subscription) => {
+      const qos = Math.min(subscription.qos ?? 0, this.#options.maximumQoS);
+      const previous = session.subscriptions.get(subscription.topic);
+      if (previous) {
+        this.#subscriptions.delete(previous.filter, previous);
+      }
+      const entry: SubscriptionEntry = {
+        session,
+        filter: subscription.topic,
+        shareName: parseSharedSubscription(subscription.topic).shareName,
+        subscription: { ...subscription, qos },
+        subscription_identifier: packet.properties?.subscription_identifier,
+      };
+      session.subscriptions.set(entry.filter, entry);
+      this.#subscriptions.add(entry.filter, entry);
+
+      // 3.3.1.3 retained messages are not sent for shared subscriptions
+      const retain_handling = subscription.retain_handling ??
+        RetainHandling.Send_retained_messages_at_the_time_of_the_subscribe;
+      if (
+        entry.shareName === undefined &&
+        retain_handling !==
+          RetainHandling
+            .Do_not_send_retained_messages_at_the_time_of_the_subscribe &&
+        !(previous && retain_handling ===
+            RetainHandling
+              .Send_retained_messages_at_subscribe_only_if_the_subscription_does_not_currently_exist)
+      ) {
+        retained.push(entry);
+      }
+      return qos;
+    });
+    connection.send({
+      type: ControlPacketType.SubAck,
+      packet_identifier: packet.packet_identifier,
+      reason_codes,
+    });
+
+    for (const entry of retained) {
+      for (const [topic, message] of this.#retained) {
+        if (
+          message.expiresAt !== undefined && message.expiresAt <= Date.now()
+        ) {
+          this.#retained.delete(topic);
+          continue;
+        }
+        if (!topicMatchesFilter(topic, entry.filter)) {
+          continue;
+        }
+        session.deliver({
+          packet: {
+            ...message.packet,
+            qos: Math.min(message.packet.qos!, entry.subscription.qos!),
+            retain: true,
+            ...(entry.subscription_identifier !== undefined && {
+              properties: {
+                ...message.packet.properties,
+                subscription_identifier: [entry.subscription_identifier],
+              },
+            }),
+          },
+          expiresAt: message.expiresAt,
+        });
+      }
+    }
+  }
+
+  /** 3.10.4 Removes the subscriptions and answers with an UNSUBACK. */
+  #unsubscribe(
+    connection: BrokerConnection,
+    session: BrokerSession,
+    packet: UnsubscribePacket,
+  ) {
+    connection.send({
+      type: ControlPacketType.UnsubAck,
+      packet_identifier: packet.packet_identifier,
+      reason_codes: packet.topic_filters.map((filter) => {
+        const entry = session.subscriptions.get(filter);
+        if (entry === undefined) {
+          return UnsubAckReasonCode.No_subscription_existed;
+        }
+        session.subscriptions.delete(filter);
+        this.#subscriptions.delete(filter, entry);
+        return UnsubAckReasonCode.Success;
+      }),
+    });
+  }
+}
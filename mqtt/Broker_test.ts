@@ -0,0 +1,272 @@
+/**
+ * Copyright 2023-2026 Bernd Amend. MIT license.
+ */
+import { assert, assertEquals } from "@std/assert";
+import * as m from "./mod.ts";
+
+const timeout = { timeout: 5000 as m.Milliseconds };
+const properties = {
+  publishDeserializeOptions: m.PublishDeserializeOptions.UTF8String,
+};
+
+function reader(
+  subscription: m.Subscription,
+): () => Promise<m.PublishPacket> {
+  const iterator = subscription[Symbol.asyncIterator]();
+  return async () => (await iterator.next()).value;
+}
+
+Deno.test("Broker forwards publishes, retained and will messages", async () => {
+  await using broker = new m.Broker();
+  const { port } = broker.listen("mqtt://127.0.0.1:0") as Deno.NetAddr;
+  const url = `mqtt://127.0.0.1:${port}`;
+  broker.publish({
+    topic: m.asTopic("status/broker"),
+    payload: "online",
+    retain: true,
+  });
+
+  await using publisher = new m.Client(url, {
+    client_id: m.asClientID("publisher"),
+    will: { topic: m.asTopic("status/publisher"), payload: "offline" },
+  }, properties);
+  await using subscriber = new m.Client(url, {
+    protocol_version: m.ProtocolVersion.MQTT_3_1_1,
+  }, properties);
+  await publisher.waitForConnected(timeout);
+  await subscriber.waitForConnected(timeout);
+
+  await using status = await subscriber.subscribeStream({
+    subscriptions: [{ topic: m.asTopicFilter("status/+"), qos: 1 }],
+  });
+  const nextStatus = reader(status);
+  assertEquals(await nextStatus(), {
+    type: m.ControlPacketType.Publish,
+    topic: m.asTopic("status/broker"),
+    retain: true,
+    payload: "online",
+  });
+
+  await using data = await subscriber.subscribeStream({
+    subscriptions: [{ topic: m.asTopicFilter("data/#"), qos: 2 }],
+  });
+  const nextData = reader(data);
+  for (const qos of [0, 1, 2] as m.QoS[]) {
+    await publisher.publish({
+      topic: m.asTopic(`data/${qos}`),
+      payload: `qos ${qos}`,
+      qos,
+    });
+    const packet = await nextData();
+    assertEquals([packet.topic, packet.payload, packet.qos ?? 0], [
+      `data/${qos}`,
+      `qos ${qos}`,
+      qos,
+    ]);
+  }
+
+  await publisher.close({
+    type: m.ControlPacketType.Disconnect,
+    reason_code: m.DisconnectReasonCode.Disconnect_with_Will_Message,
+  });
+  assertEquals((await nextStatus()).payload, "offline");
+});
+
+Deno.test("Broker resumes sessions and queues QoS 1 publishes", async () => {
+  await using broker = new m.Broker();
+  const { port } = broker.listen("mqtt://127.0.0.1:0") as Deno.NetAddr;
+  const url = `mqtt://127.0.0.1:${port}`;
+  const connectPacket = {
+    client_id: m.asClientID("persistent"),
+    clean_start: false,
+    properties: { session_expiry_interval: 60 as m.Seconds },
+  };
+
+  const first = new m.Client(url, connectPacket, properties);
+  assertEquals((await first.waitForConnected(timeout)).session_present, false);
+  await first.subscribe({
+    subscriptions: [{ topic: m.asTopicFilter("queue/#"), qos: 1 }],
+  });
+  await first.close();
+
+  await using publisher = new m.Client(url, {}, properties);
+  await publisher.waitForConnected(timeout);
+  assertEquals(
+    (await publisher.publish({
+      topic: m.asTopic("queue/a"),
+      payload: "kept",
+      qos: 1,
+    }))?.reason_code,
+    undefined,
+  );
+  assertEquals(
+    (await publisher.publish({
+      topic: m.asTopic("other"),
+      payload: "unrouted",
+      qos: 1,
+    }))?.reason_code,
+    m.PubAckReasonCode.No_matching_subscribers,
+  );
+
+  await using second = new m.Client(url, connectPacket, properties);
+  const packets = second.readable.getReader();
+  const connAck = await packets.read();
+  assertEquals(connAck.value?.type, m.ControlPacketType.ConnAck);
+  assertEquals((connAck.value as m.ConnAckPacket).session_present, true);
+  const queued = (await packets.read()).value as m.PublishPacket;
+  assertEquals([queued.topic, queued.payload], ["queue/a", "kept"]);
+  packets.releaseLock();
+});
+
+Deno.test("Broker disconnects clients that don't read their packets", async () => {
+  await using broker = new m.Broker({ maximumPendingBytes: 1000 });
+  const [client, peer] = m.createLoopbackPair();
+  const served = broker.handleConnection(peer);
+  const w = new m.Writer();
+  const writer = client.writable.getWriter();
+  await writer.write(m.serializeConnectPacket({}, w));
+  await writer.write(m.serializeSubscribePacket({
+    packet_identifier: 1 as m.PacketIdentifier,
+    subscriptions: [{ topic: m.asTopicFilter("flood") }],
+  }, w));
+  const packets = client.readable.pipeThrough(
+    new TransformStream(new m.DeserializeStream()),
+  ).getReader();
+  assertEquals((await packets.read()).value?.type, m.ControlPacketType.ConnAck);
+  assertEquals((await packets.read()).value?.type, m.ControlPacketType.SubAck);
+
+  // the client stops reading
+  for (let i = 0; i < 20; ++i) {
+    broker.publish({ topic: m.asTopic("flood"), payload: "x".repeat(200) });
+  }
+  await served;
+
+  const received: m.AllPacket[] = [];
+  for (let r = await packets.read(); !r.done; r = await packets.read()) {
+    received.push(r.value);
+  }
+  const disconnect = received.pop();
+  assertEquals(disconnect?.type, m.ControlPacketType.Disconnect);
+  assertEquals(
+    (disconnect as m.DisconnectPacket).reason_code,
+    m.DisconnectReasonCode.Quota_exceeded,
+  );
+  assert(received.length < 20);
+  assert(received.every((p) => p.type === m.ControlPacketType.Publish));
+});
+
+function connect(
+  broker: m.Broker,
+  packet: m.MakeSerializePacketType<m.ConnectPacket>,
+) {
+  const [client, peer] = m.createLoopbackPair();
+  const served = broker.handleConnection(peer);
+  const w = new m.Writer();
+  const writer = client.writable.getWriter();
+  const packets = client.readable.pipeThrough(
+    new TransformStream(new m.DeserializeStream()),
+  ).getReader();
+  return {
+    served,
+    packets,
+    writer,
+    send: (packet: m.AllPacket) => writer.write(m.serialize(packet, w)),
+    connected: (async () => {
+      await writer.write(m.serializeConnectPacket(packet, w));
+      const connAck = (await packets.read()).value;
+      assertEquals(connAck?.type, m.ControlPacketType.ConnAck);
+    })(),
+  };
+}
+
+Deno.test("Broker rejects No Local on shared subscriptions", async () => {
+  await using broker = new m.Broker();
+  const client = connect(broker, {});
+  await client.connected;
+  await client.send({
+    type: m.ControlPacketType.Subscribe,
+    packet_identifier: 1 as m.PacketIdentifier,
+    subscriptions: [{ topic: m.asTopicFilter("$share/g/t"), no_local: true }],
+  });
+  const disconnect = (await client.packets.read()).value;
+  assertEquals(disconnect?.type, m.ControlPacketType.Disconnect);
+  assertEquals(
+    (disconnect as m.DisconnectPacket).reason_code,
+    m.DisconnectReasonCode.Protocol_Error,
+  );
+  assert((await client.packets.read()).done);
+  await client.served;
+});
+
+Deno.test("Broker disconnects clients that exceed their keepalive", async () => {
+  await using broker = new m.Broker();
+  const client = connect(broker, { keepalive: 1 as m.Seconds });
+  await client.connected;
+  const start = Date.now();
+  const disconnect = (await client.packets.read()).value;
+  assertEquals(disconnect?.type, m.ControlPacketType.Disconnect);
+  assertEquals(
+    (disconnect as m.DisconnectPacket).reason_code,
+    m.DisconnectReasonCode.Keep_Alive_timeout,
+  );
+  assert(
+    Date.now() - start >= 1000,
+    "The broker waits 1.5 times the keepalive",
+  );
+  await client.served;
+});
+
+Deno.test("Broker delays the will by the will_delay_interval", async () => {
+  await using broker = new m.Broker();
+  const observer = connect(broker, {});
+  await observer.connected;
+  await observer.send({
+    type: m.ControlPacketType.Subscribe,
+    packet_identifier: 1 as m.PacketIdentifier,
+    subscriptions: [{ topic: m.asTopicFilter("will/#") }],
+  });
+  assertEquals(
+    (await observer.packets.read()).value?.type,
+    m.ControlPacketType.SubAck,
+  );
+
+  const connectPacket = (
+    topic: string,
+  ): m.MakeSerializePacketType<m.ConnectPacket> => ({
+    client_id: m.asClientID(topic),
+    clean_start: false,
+    properties: { session_expiry_interval: 60 as m.Seconds },
+    will: {
+      topic: m.asTopic(`will/${topic}`),
+      payload: topic,
+      properties: { will_delay_interval: 1 as m.Seconds },
+    },
+  });
+
+  // the connection of "resumed" is lost, but it resumes its session in time
+  const resumed = connect(broker, connectPacket("resumed"));
+  await resumed.connected;
+  await resumed.writer.close();
+  await resumed.served;
+  const resuming = connect(broker, connectPacket("resumed"));
+  await resuming.connected;
+
+  // the connection of "lost" is lost for good
+  const lost = connect(broker, connectPacket("lost"));
+  await lost.connected;
+  const start = Date.now();
+  await lost.writer.close();
+  await lost.served;
+
+  const will = (await observer.packets.read()).value as m.PublishPacket;
+  assert(Date.now() - start >= 1000, "The will is delayed");
+  assertEquals([will.type, will.topic], [
+    m.ControlPacketType.Publish,
+    "will/lost",
+  ]);
+
+  await resuming.send({ type: m.ControlPacketType.Disconnect });
+  await resuming.served;
+  await observer.writer.close();
+  await observer.served;
+});
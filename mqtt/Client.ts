@@ -1,15 +1,24 @@
 /**
- * MQTT 5.0 client implementation.
+ * MQTT 5.0 and 3.1.1 client implementation.
  *
  * @module
  * @license MIT
  * @copyright 2023-2026 Bernd Amend
  */
-import { deadline, delay } from "../helper/mod.ts";
-import { streamifyWebSocket } from "../helper/websocket.ts";
+import {
+  abortable,
+  DataReader,
+  deadline,
+  delay,
+  nanoid,
+  toHexString,
+} from "../helper/mod.ts";
 import {
   type AllPacket,
+  asTopic,
+  asTopicFilter,
   type AuthPacket,
+  AuthReasonCode,
   type ConnAckPacket,
   type ConnectPacket,
   ConnectReasonCode,
@@ -18,12 +27,23 @@ import {
   DisconnectReasonCode,
   type Milliseconds,
   type PacketIdentifier,
+  ProtocolVersion,
+  type PubAckPacket,
+  PubAckReasonCode,
+  type PubCompPacket,
+  PubCompReasonCode,
   type PublishPacket,
+  PubRecReasonCode,
+  type PubRelPacket,
+  QoS,
   type Seconds,
   type SubAckPacket,
   type SubscribePacket,
+  type Topic,
+  type TopicFilter,
   type UnsubAckPacket,
   type UnsubscribePacket,
+  type UserProperty,
 } from "./packets.ts";
 
 import {
@@ -33,7 +53,11 @@ import {
   serializeAuthPacket,
   serializeConnectPacket,
   serializeDisconnectPacket,
+  serializePubAckPacket,
+  serializePubCompPacket,
   serializePublishPacket,
+  serializePubRecPacket,
+  serializePubRelPacket,
   serializeSubscribePacket,
   serializeUnsubscribePacket,
   Writer,
@@ -42,6 +66,37 @@ import {
 import { PublishDeserializeOptions } from "./deserialize.ts";
 
 import { DeserializeStream } from "./DeserializeStream.ts";
+import {
+  AuthenticationError,
+  ConnectionLostError,
+  ConnectRejectedError,
+  InvalidPacketError,
+  MqttError,
+  MqttProtocolError,
+  NotConnectedError,
+  PacketTooLargeError,
+  PublishError,
+  ServerRedirectError,
+  SubscribeError,
+} from "./errors.ts";
+import { MemorySessionStore, type SessionStore } from "./SessionStore.ts";
+import { LRUTopicAliasPolicy, type TopicAliasPolicy } from "./TopicAlias.ts";
+import { Subscription } from "./Subscription.ts";
+import type { AuthenticationProvider } from "./Authentication.ts";
+import { OfflineQueue, type OfflineQueueOptions } from "./OfflineQueue.ts";
+import {
+  checkPublishCapabilities,
+  checkSubscribeCapabilities,
+  type ServerCapabilities,
+  serverCapabilities,
+} from "./ServerCapabilities.ts";
+import {
+  type ConnectionState,
+  ConnectionStateChangeEvent,
+} from "./ConnectionState.ts";
+import { fixedDelay, type ReconnectStrategy } from "./ReconnectStrategy.ts";
+import { SubscriptionTree } from "./TopicMatcher.ts";
+import { connectTransport, type TransportFactory } from "./Transport.ts";
 import {
   ClientSource,
   type CustomPackets,
@@ -52,19 +107,124 @@ import {
  * Configuration properties for the MQTT Client.
  */
 export type ClientProperties = {
-  /** Time in milliseconds to wait before reconnecting. 0 disables auto-reconnect. */
+  /** Time in milliseconds to wait before every reconnect attempt. 0 disables auto-reconnect. */
   reconnectTime?: Milliseconds;
+  /**
+   * Decides if and when the client reconnects, e.g. exponentialBackoff().
+   * Defaults to fixedDelay(reconnectTime).
+   */
+  reconnectStrategy?: ReconnectStrategy;
+  /**
+   * A connection that was established for at least this time in milliseconds is stable,
+   * the attempts passed to the reconnectStrategy are reset if it is lost.
+   */
+  stableConnectionTime?: Milliseconds;
   /** Timeout in milliseconds for the CONNECT/CONNACK handshake. */
   connectTimeout?: Milliseconds;
+  /**
+   * The maximum number of consecutive server redirections that are followed,
+   * reset after a stable connection. Further redirections are treated as failed connection attempts.
+   */
+  maximumRedirects?: number;
   /** How to deserialize PUBLISH packet payloads. */
   publishDeserializeOptions?: PublishDeserializeOptions;
+  /**
+   * If true, received QoS 1/2 PUBLISH packets are not acknowledged automatically,
+   * the application has to call Client.acknowledge() after it processed the message.
+   * This ensures that the server redelivers messages that were not processed, e.g. due to a crash.
+   */
+  manualAcknowledgement?: boolean;
+  /**
+   * Stores the session state (in-flight QoS 1/2 messages) across reconnects, defaults to a MemorySessionStore.
+   * To resume a session the connect packet has to set clean_start to false and a session_expiry_interval.
+   */
+  sessionStore?: SessionStore;
+  /**
+   * If true, publish calls fail immediately if the number of in-flight QoS 1/2 messages
+   * reached the receive_maximum of the server, instead of waiting until a message was acknowledged.
+   */
+  failFastOnReceiveMaximum?: boolean;
+  /**
+   * Decides which topics of outgoing publishes are replaced by topic aliases, defaults to a LRUTopicAliasPolicy.
+   * Topic aliases are only used if the server allows them with topic_alias_maximum.
+   */
+  topicAliasPolicy?: TopicAliasPolicy;
+  /**
+   * The topic_alias_maximum sent to the server, if the connect packet doesn't specify one.
+   * Topic aliases of received publishes are resolved automatically, 0 disables them.
+   */
+  topicAliasMaximum?: number;
+  /**
+   * If true, the subscriptions are replayed if the server didn't resume the session after a reconnect.
+   * The results are reported with CustomPacketType.Resubscribed packets on the readable.
+   */
+  resubscribe?: boolean;
+  /**
+   * Drives the enhanced authentication, the authentication_method and authentication_data
+   * of the connect packet are set by the provider.
+   * The AUTH packets of the exchange are handled by the client and not emitted on the readable.
+   */
+  authenticationProvider?: AuthenticationProvider;
+  /**
+   * Queues publishes while the client is not connected, instead of rejecting them.
+   * The queue is sent in order after the next successful connect, disabled by default.
+   */
+  offlineQueue?: OfflineQueueOptions;
+  /**
+   * If true, publishes with a QoS above the maximum_QoS of the server are sent with the maximum_QoS,
+   * otherwise they are rejected with a CapabilityError.
+   */
+  downgradeQoS?: boolean;
+  /**
+   * Establishes the connections to all addresses, instead of the transports registered for their protocols.
+   * E.g. to connect through a serial-port bridge or to a test double.
+   */
+  transport?: TransportFactory;
 };
 
 /** Default values for ClientProperties. */
-export const DefaultClientProperties: Required<ClientProperties> = {
+export const DefaultClientProperties: Required<
+  Omit<
+    ClientProperties,
+    | "sessionStore"
+    | "topicAliasPolicy"
+    | "reconnectStrategy"
+    | "authenticationProvider"
+    | "offlineQueue"
+    | "transport"
+  >
+> = {
   reconnectTime: 1_000 as Milliseconds,
+  stableConnectionTime: 10_000 as Milliseconds,
   connectTimeout: 10_000 as Milliseconds,
+  maximumRedirects: 5,
   publishDeserializeOptions: PublishDeserializeOptions.PayloadFormatIndicator,
+  manualAcknowledgement: false,
+  failFastOnReceiveMaximum: false,
+  topicAliasMaximum: 100,
+  resubscribe: true,
+  downgradeQoS: false,
+};
+
+/**
+ * The key of the user property that contains the error message,
+ * if the handler passed to Client.serve threw an exception.
+ */
+export const ServeErrorUserPropertyKey = "error";
+
+/**
+ * Handles a request received by Client.serve.
+ * @param request the received request publish
+ * @returns the payload of the response
+ */
+export type ServeHandler = (
+  request: PublishPacket,
+) => Promise<PublishPacket["payload"]> | PublishPacket["payload"];
+
+/** Reserves the packet identifier of an in-flight message without a waiting publish call. */
+const inflightPlaceholder = {
+  resolve: () => {},
+  reject: () => {},
 };
 
 /**
@@ -100,11 +260,39 @@ export function logPacket(packet: AllPacket | CustomPackets) {
         packet.msg,
       );
       break;
+    case CustomPacketType.Resubscribed:
+      console.log(CustomPacketType[packet.type], packet);
+      break;
+    case CustomPacketType.ProtocolError:
+      console.error(
+        `%c${CustomPacketType[packet.type]}`,
+        "color: red",
+        packet.error,
+        packet.bytes && toHexString(packet.bytes),
+      );
+      break;
     default:
       console.log(ControlPacketType[packet.type], packet);
   }
 }
 
+/**
+ * Returns the binary data of a received packet as Uint8Array.
+ */
+function toUint8Array(
+  data: DataReader | Uint8Array | undefined,
+): Uint8Array | undefined {
+  return data instanceof DataReader ? data.asUint8Array() : data;
+}
+
+/**
+ * 4.13 Only protocol errors of the server close the connection with a DISCONNECT,
+ * a PacketTooLargeError is raised by serializing an own packet.
+ */
+function isReceivedProtocolError(e: unknown): e is MqttProtocolError {
+  return e instanceof MqttProtocolError && !(e instanceof PacketTooLargeError);
+}
+
 /**
  * Prints a read result from a readable stream.
  * @param msg - The read result
@@ -125,19 +313,30 @@ export function printPacket(
  * Low-level MQTT connection with readable and writable streams.
  */
 export type LowLevelConnection = {
-  /** Stream of deserialized MQTT packets. */
+  /**
+   * Stream of deserialized MQTT packets.
+   * A protocol violation errors the stream, but keeps the connection open,
+   * so a Disconnect packet can still be sent before the writable is closed.
+   */
   readable: ReadableStream<AllPacket>;
   /** Stream for sending raw bytes. */
   writable: WritableStream<string | ArrayBufferView | ArrayBufferLike | Blob>;
 };
 
 /**
+ * Connects to the address with the transport registered for its protocol, see registerTransport.
  * You may also want to have a look at the Client
  */
 export async function connectLowLevel(
   address: URL | string,
   options?: {
     publishDeserializeOptions?: PublishDeserializeOptions;
+    /** The topic_alias_maximum sent in the connect packet, required to resolve topic aliases. */
+    topicAliasMaximum?: number;
+    /** The protocol_version sent in the connect packet, defaults to MQTT 5. */
+    protocolVersion?: ProtocolVersion;
+    /** Establishes the connection instead of the transport registered for the protocol. */
+    transport?: TransportFactory;
   },
 ): Promise<LowLevelConnection> {
   const ts = new TransformStream<Uint8Array<ArrayBuffer>, AllPacket>(
@@ -147,114 +346,240 @@ export async function connectLowLevel(
   if (typeof address === "string") {
     address = new URL(address);
   }
-  if (address.protocol === "ws:" || address.protocol === "wss:") {
-    if (typeof WebSocketStream === "undefined") {
-      const conn = streamifyWebSocket(
-        address.toString(),
-        "mqtt",
-      );
-      return {
-        readable: conn.readable.pipeThrough(ts),
-        writable: conn.writable,
-      };
-    }
-    const wss = new WebSocketStream(address.toString(), {
-      protocols: ["mqtt"],
-    });
-    const conn = await wss.opened;
-    return {
-      readable: conn.readable.pipeThrough(ts),
-      writable: conn.writable,
-    };
-  }
-  if (
-    typeof Deno !== "undefined" &&
-    (address.protocol === "tcp:" || address.protocol === "mqtt:")
-  ) {
-    const conn = await Deno.connect({
-      hostname: address.hostname,
-      port: address.port === "" ? 1883 : Number.parseInt(address.port),
-      transport: "tcp",
-    });
-
-    conn.setNoDelay(true);
-
-    return {
-      readable: conn.readable.pipeThrough(ts),
-      writable: conn.writable,
-    };
-  }
-  if (
-    typeof Deno !== "undefined" &&
-    (address.protocol === "tls:" || address.protocol === "mqtts:")
-  ) {
-    const conn = await Deno.connectTls({
-      hostname: address.hostname,
-      port: address.port === "" ? 8883 : Number.parseInt(address.port),
-    });
-
-    return {
-      readable: conn.readable.pipeThrough(ts),
-      writable: conn.writable,
-    };
-  }
-  if (
-    typeof Deno !== "undefined" &&
-    (address.protocol === "unix:")
-  ) {
-    const conn = await Deno.connect({
-      path: address.pathname,
-      transport: "unix",
-    });
-
-    return {
-      readable: conn.readable.pipeThrough(ts),
-      writable: conn.writable,
-    };
-  }
-
-  throw new Error(`Unsupported protocol ${address.protocol}`);
+  const conn = options?.transport
+    ? await options.transport(address)
+    : await connectTransport(address);
+  return {
+    readable: conn.readable.pipeThrough(ts, { preventCancel: true }),
+    writable: conn.writable,
+  };
 }
 
 /**
  * Default Client implementation providing the following features
  *  - auto-reconnect, keeping the assigned client id
  *  - send pings
+ *  - QoS 1 and QoS 2 publish flows (packet identifiers, PubAck, PubRec/PubRel/PubComp handling)
+ *  - acknowledge received QoS 1 and QoS 2 publishes, optionally manually
+ *  - retransmit in-flight QoS 1 and QoS 2 messages if the session was resumed
+ *  - limit the in-flight QoS 1 and QoS 2 messages to the receive_maximum of the server
+ *  - replace the topics of outgoing publishes with topic aliases and resolve the topic aliases of received ones
+ *  - per-subscription streams of the received publishes, see subscribeStream
+ *  - observable connection state, see state, the statechange event and waitForConnected
  */
-export class Client implements AsyncDisposable {
+export class Client extends EventTarget implements AsyncDisposable {
   #writer = new Writer();
   #writable: WritableStreamDefaultWriter | undefined;
   #connectPacket: OmitPacketType<ConnectPacket>;
   #connectAck?: ConnAckPacket;
+  #serverCapabilities?: ServerCapabilities;
   #messageHandlerPromise: Promise<void> | undefined;
   #active = false;
+  #state: ConnectionState = "closed";
   #pingIntervalId?: number;
   #source = new ClientSource();
   #readable = new ReadableStream<AllPacket | CustomPackets>(this.#source);
 
   #lastPingRespReceived = 0;
 
+  /** The addresses of the servers, rotated on connection failures. */
+  #addresses: (URL | string)[];
+  #addressIndex = 0;
+  /** 4.11 The server the next connection attempt is redirected to with Use_another_server. */
+  #redirectAddress?: URL;
+  /** The number of consecutive redirections that were followed, reset after a stable connection. */
+  #redirectHops = 0;
+
+  #offlineQueue?: OfflineQueue;
+  #flushingOfflineQueue = false;
+
+  /** The running re-authentication started with reauthenticate(). */
+  #reauthentication?: PromiseWithResolvers<AuthPacket>;
+
+  #reconnectStrategy: ReconnectStrategy;
+  /** The number of consecutive connection failures, reset after a stable connection. */
+  #reconnectAttempt = 0;
+  /** Aborts waiting for the next connection attempt, if the client is closed. */
+  #reconnectAbort = new AbortController();
+
+  /**
+   * 4.3.3 Packet identifiers of received QoS 2 publishes for which no PubRel was received yet.
+   * The value is true if the PubRec was already sent.
+   */
+  #receivedQoS2 = new Map<PacketIdentifier, boolean>();
+
+  /**
+   * Outgoing QoS 1/2 messages that were not completely acknowledged, in the order they were sent.
+   * Mirrors the content of the session store.
+   */
+  #inflight = new Map<PacketIdentifier, PublishPacket | PubRelPacket>();
+  #sessionStore: SessionStore;
+  #sessionRestored = false;
+  #topicAliasPolicy: TopicAliasPolicy;
+
+  /** The subscriptions created with subscribeStream, received publishes are routed to them. */
+  #subscriptions = new Set<Subscription>();
+  #subscriptionTree = new SubscriptionTree<Subscription>();
+
+  /**
+   * The subscriptions acknowledged by the server, including their options and properties.
+   * Replayed if the session was not resumed after a reconnect.
+   */
+  #activeSubscriptions = new Map<TopicFilter, {
+    subscription: SubscribePacket["subscriptions"][number];
+    properties?: SubscribePacket["properties"];
+  }>();
+
+  /** The subscription to the response topic used by request(), created by the first request. */
+  #responseSubscription?: Promise<Subscription>;
+  /** The requests waiting for a response, the key is the hex encoded correlation_data. */
+  #pendingRequests = new Map<string, PromiseWithResolvers<PublishPacket>>();
+
+  /** 3.2.2.3.3 The number of in-flight messages the server is willing to process concurrently. */
+  #receiveMaximum = 65535;
+  /** Send quota granted to publish calls, that didn't add their message to #inflight yet. */
+  #grantedSendQuota = 0;
+  #sendQuotaWaiters: {
+    resolve: () => void;
+    reject: (err: Error) => void;
+  }[] = [];
+
+  /**
+   * 4.9 Waits until another in-flight message is allowed by the receive_maximum of the server.
+   * The granted quota has to be returned with #returnSendQuota() once the message was added to #inflight.
+   * @throws if failFastOnReceiveMaximum is set and the quota is exhausted
+   */
+  async #acquireSendQuota() {
+    if (
+      this.#sendQuotaWaiters.length === 0 &&
+      this.#inflight.size + this.#grantedSendQuota < this.#receiveMaximum
+    ) {
+      ++this.#grantedSendQuota;
+      return;
+    }
+    if (
+      this.properties?.failFastOnReceiveMaximum ??
+        DefaultClientProperties.failFastOnReceiveMaximum
+    ) {
+      throw new MqttError(
+        `The receive_maximum of ${this.#receiveMaximum} in-flight messages is reached`,
+      );
+    }
+    await new Promise<void>((resolve, reject) => {
+      this.#sendQuotaWaiters.push({ resolve, reject });
+    });
+  }
+
+  /** Returns quota granted by #acquireSendQuota(). */
+  #returnSendQuota() {
+    --this.#grantedSendQuota;
+    this.#releaseSendQuota();
+  }
+
+  /** Resumes waiting publish calls, as long as the receive_maximum allows it. */
+  #releaseSendQuota() {
+    while (
+      this.#sendQuotaWaiters.length > 0 &&
+      this.#inflight.size + this.#grantedSendQuota < this.#receiveMaximum
+    ) {
+      ++this.#grantedSendQuota;
+      this.#sendQuotaWaiters.shift()!.resolve();
+    }
+  }
+
   #pendingReplies: ({
     resolve: (value: AllPacket) => void;
     reject: (err: Error) => void;
   } | undefined)[] = [];
 
-  #clearPendingReplies(err?: Error) {
-    for (const v of this.#pendingReplies) {
-      if (v !== undefined) {
-        try {
-          v.reject(err ?? new Error("#clearPendingReplies"));
-        } catch (e: unknown) {
-          console.error("Error while rejecting a pending reply", e);
-        }
-      }
-    }
+  /**
+   * Rejects all pending replies.
+   * @param err the error used to reject the replies
+   * @param keepInflight keep the replies for in-flight messages, they may be completed after a reconnect
+   */
+  #clearPendingReplies(err?: Error, keepInflight = false) {
+    const pendingReplies = this.#pendingReplies;
     this.#pendingReplies = [{
       resolve: (v) => {
         console.error("The PacketIdentifier 0 shouldn't be used, but got ", v);
       },
       reject: () => {},
     }];
+    for (const [packet_identifier, v] of pendingReplies.entries()) {
+      if (v === undefined || packet_identifier === 0) {
+        continue;
+      }
+      if (this.#inflight.has(packet_identifier as PacketIdentifier)) {
+        if (keepInflight) {
+          this.#pendingReplies[packet_identifier] = v;
+          continue;
+        }
+        // The session state is kept, the identifier stays in use until the exchange is completed
+        this.#pendingReplies[packet_identifier] = inflightPlaceholder;
+      }
+      try {
+        v.reject(err ?? new Error("#clearPendingReplies"));
+      } catch (e: unknown) {
+        console.error("Error while rejecting a pending reply", e);
+      }
+    }
+  }
+
+  /**
+   * Loads the session state from the session store, the identifiers of in-flight messages are reserved.
+   */
+  async #restoreSession() {
+    const state = await this.#sessionStore.load();
+    for (const p of state.outgoing) {
+      this.#inflight.set(p.packet_identifier!, p);
+      this.#pendingReplies[p.packet_identifier!] ??= inflightPlaceholder;
+    }
+    for (const packet_identifier of state.received) {
+      this.#receivedQoS2.set(packet_identifier, true);
+    }
+    this.#sessionRestored = true;
+  }
+
+  /**
+   * 4.4 Retransmits the in-flight messages in the order they were sent, after the session was resumed.
+   */
+  async #resumeSession(writable: WritableStreamDefaultWriter) {
+    for (const p of this.#inflight.values()) {
+      await writable.write(
+        p.type === ControlPacketType.PubRel
+          ? serializePubRelPacket(p, this.#writer)
+          : serializePublishPacket({ ...p, dup: true }, this.#writer),
+      );
+    }
+  }
+
+  /**
+   * Discards the session state, since the server didn't resume the session.
+   */
+  async #discardSession() {
+    if (this.#inflight.size === 0 && this.#receivedQoS2.size === 0) {
+      return;
+    }
+    for (const packet_identifier of this.#inflight.keys()) {
+      const handler = this.#pendingReplies[packet_identifier];
+      this.#pendingReplies[packet_identifier] = undefined;
+      handler?.reject(
+        new MqttError("The message was discarded, the session was not resumed"),
+      );
+    }
+    this.#inflight.clear();
+    this.#receivedQoS2.clear();
+    await this.#sessionStore.clear();
+  }
+
+  /**
+   * Removes a completely acknowledged outgoing message from the session state.
+   */
+  async #completeOutgoing(packet_identifier: PacketIdentifier) {
+    if (this.#inflight.delete(packet_identifier)) {
+      this.#releaseSendQuota();
+      await this.#sessionStore.removeOutgoing(packet_identifier);
+    }
   }
 
   #getPacketIdentifierHandler(): [PacketIdentifier, Promise<AllPacket>] {
@@ -280,7 +605,10 @@ export class Client implements AsyncDisposable {
   /**
    * Creates a new MQTT Client that connects to the given address.
    * The connection is established automatically.
-   * If the connection fails, it will retry to connect after the reconnectTime.
+   * If the connection fails, it will retry to connect as decided by the reconnectStrategy.
+   * If multiple addresses are passed, the next address is used after every failed connection attempt.
+   * The client follows server redirections (Use_another_server, Server_moved) if the server sends a server_reference,
+   * up to maximumRedirects times in a row, after the delay of the reconnectStrategy.
    * If the connection was closed with close(), you have to call open() to re-open the connection.
    * Supported protocols:
    *   TCP: mqtt://hostname[:port], tcp://hostname[:port]
@@ -288,20 +616,71 @@ export class Client implements AsyncDisposable {
    *   WebSocket: ws://hostname[:port], any valid url e.g. ws://server/some/endpoint
    *   WebSockets over SSL/TLS: wss://hostname[:port], any valid url e.g. wss://server/some/endpoint
    *   Unix Domain Socket: unix:///tmp/mosquitto.sock
-   * @param address the address of the MQTT server to connect to, e.g. "mqtt://localhost" or "ws://localhost/mqtt"
+   *   In-memory: memory://name, connects to the listener created with listenLoopback(name, ...)
+   * Further protocols can be added with registerTransport, or all connections are established
+   * by the transport of the properties.
+   * Set protocol_version to ProtocolVersion.MQTT_3_1_1 in the connect packet to talk to MQTT 3.1.1 servers.
+   * Properties are not sent in this case, topic aliases and subscription identifiers are not used, and
+   * request(), serve(), auth() and reauthenticate() throw.
+   * @param address the address of the MQTT server to connect to, e.g. "mqtt://localhost" or "ws://localhost/mqtt",
+   * or a list of addresses of equivalent servers
    * @param connectPacket the connect packet that is sent to the MQTT server. An Empty object is used if not provided.
    * @param properties Values that are not set are set to DefaultClientProperties.
+   * @throws if an authenticationProvider is used together with MQTT 3.1.1
    */
   constructor(
-    public readonly address: URL | string,
+    public readonly address: URL | string | (URL | string)[],
     connectPacket?: OmitPacketType<ConnectPacket>,
     public readonly properties?: ClientProperties,
   ) {
+    super();
     this.#clearPendingReplies();
+    this.#sessionStore = properties?.sessionStore ?? new MemorySessionStore();
+    this.#topicAliasPolicy = properties?.topicAliasPolicy ??
+      new LRUTopicAliasPolicy();
+    this.#reconnectStrategy = properties?.reconnectStrategy ?? fixedDelay(
+      properties?.reconnectTime ?? DefaultClientProperties.reconnectTime,
+    );
+    this.#addresses = Array.isArray(address) ? [...address] : [address];
+    if (this.#addresses.length === 0) {
+      throw new Error("At least one address is required");
+    }
+    if (properties?.offlineQueue) {
+      this.#offlineQueue = new OfflineQueue(properties.offlineQueue);
+    }
     this.#connectPacket = connectPacket ?? {};
+    this.#writer.protocolVersion = this.#protocolVersion;
+    if (properties?.authenticationProvider) {
+      this.#requireMqtt5("The authenticationProvider");
+    }
     this.open();
   }
 
+  /** 3.1.2.2 The protocol version of the connect packet. */
+  get #protocolVersion(): ProtocolVersion {
+    return this.#connectPacket.protocol_version ?? ProtocolVersion.MQTT_5;
+  }
+
+  /**
+   * Rejects features that can't be expressed with MQTT 3.1.1.
+   * @throws {MqttError} if the client uses MQTT 3.1.1
+   */
+  #requireMqtt5(feature: string) {
+    if (this.#protocolVersion === ProtocolVersion.MQTT_3_1_1) {
+      throw new MqttError(`${feature} requires MQTT 5, the client uses 3.1.1`);
+    }
+  }
+
+  /** 3.1.2.11.5 The topic_alias_maximum sent to the server, MQTT 3.1.1 has no topic aliases. */
+  get #topicAliasMaximum(): number {
+    if (this.#protocolVersion === ProtocolVersion.MQTT_3_1_1) {
+      return 0;
+    }
+    return this.#connectPacket.properties?.topic_alias_maximum ??
+      this.properties?.topicAliasMaximum ??
+      DefaultClientProperties.topicAliasMaximum;
+  }
+
   /**
    * The connect packet that is sent to the MQTT server.
    */
@@ -324,7 +703,117 @@ export class Client implements AsyncDisposable {
   }
 
   /**
-   * A readable stream that emits all packets received from the MQTT server.
+   * The capabilities of the server with the defaults of the specification applied,
+   * undefined until the first successful connect. Publishes and subscribes are checked against them.
+   */
+  get serverCapabilities(): ServerCapabilities | undefined {
+    return this.#serverCapabilities;
+  }
+
+  /** The current state of the connection, changes are dispatched as statechange events. */
+  get state(): ConnectionState {
+    return this.#state;
+  }
+
+  /**
+   * Registers a listener for the statechange event, which is dispatched whenever the state changes.
+   * The listeners are called synchronously, before the corresponding packet is emitted by the readable stream.
+   */
+  override addEventListener(
+    type: "statechange",
+    listener: (event: ConnectionStateChangeEvent) => void,
+    options?: boolean | AddEventListenerOptions,
+  ): void;
+  override addEventListener(
+    type: string,
+    listener: EventListenerOrEventListenerObject | null,
+    options?: boolean | AddEventListenerOptions,
+  ): void;
+  override addEventListener(
+    type: string,
+    listener:
+      | EventListenerOrEventListenerObject
+      | ((event: ConnectionStateChangeEvent) => void)
+      | null,
+    options?: boolean | AddEventListenerOptions,
+  ) {
+    super.addEventListener(type, listener as EventListener | null, options);
+  }
+
+  /** Removes a listener registered with addEventListener. */
+  override removeEventListener(
+    type: "statechange",
+    listener: (event: ConnectionStateChangeEvent) => void,
+    options?: boolean | EventListenerOptions,
+  ): void;
+  override removeEventListener(
+    type: string,
+    listener: EventListenerOrEventListenerObject | null,
+    options?: boolean | EventListenerOptions,
+  ): void;
+  override removeEventListener(
+    type: string,
+    listener:
+      | EventListenerOrEventListenerObject
+      | ((event: ConnectionStateChangeEvent) => void)
+      | null,
+    options?: boolean | EventListenerOptions,
+  ) {
+    super.removeEventListener(type, listener as EventListener | null, options);
+  }
+
+  /**
+   * Waits until the server accepted the connection.
+   * @param options - Optional configuration
+   * @param options.timeout - Rejects with a TimeoutError (DOMException) if the client isn't connected within this time
+   * @param options.signal - Aborts waiting
+   * @returns the ConnAckPacket of the current connection, immediately if the client is already connected
+   * @throws if the client is or was closed while waiting or the reconnect strategy gave up
+   */
+  async waitForConnected(
+    options?: { timeout?: Milliseconds; signal?: AbortSignal },
+  ): Promise<ConnAckPacket> {
+    if (this.#state === "connected") {
+      return this.#connectAck!;
+    }
+    if (this.#state === "closing" || this.#state === "closed") {
+      throw new NotConnectedError("client closed");
+    }
+    const connected = Promise.withResolvers<ConnAckPacket>();
+    const listener = (event: ConnectionStateChangeEvent) => {
+      if (event.state === "connected") {
+        connected.resolve(this.#connectAck!);
+      } else if (event.state === "closing" || event.state === "closed") {
+        connected.reject(new NotConnectedError("client closed"));
+      }
+    };
+    this.addEventListener("statechange", listener);
+    try {
+      if (options?.timeout !== undefined) {
+        return await deadline(connected.promise, options.timeout, {
+          signal: options.signal,
+        });
+      }
+      if (options?.signal) {
+        return await abortable(connected.promise, options.signal);
+      }
+      return await connected.promise;
+    } finally {
+      this.removeEventListener("statechange", listener);
+    }
+  }
+
+  #setState(state: ConnectionState) {
+    const previous = this.#state;
+    if (previous !== state) {
+      this.#state = state;
+      this.dispatchEvent(new ConnectionStateChangeEvent(state, previous));
+    }
+  }
+
+  /**
+   * A readable stream that emits all packets received from the MQTT server,
+   * except for publishes that were routed to a subscription created with subscribeStream.
    * It also emits CustomPackets, which are used to signal errors or connection issues.
    * The readable stream is closed if the connection was closed locally.
    * You need to consume this stream!
@@ -341,6 +830,10 @@ export class Client implements AsyncDisposable {
       throw new Error("open was already called");
     }
     this.#active = true;
+    this.#setState("connecting");
+    this.#reconnectAttempt = 0;
+    this.#redirectHops = 0;
+    this.#reconnectAbort = new AbortController();
     this.#messageHandlerPromise = this.#handleMessages();
   }
 
@@ -355,6 +848,8 @@ export class Client implements AsyncDisposable {
       return;
     }
     this.#active = false;
+    this.#setState("closing");
+    this.#reconnectAbort.abort();
     this.#source.enqueue({ type: CustomPacketType.CloseLocally });
     try {
       if (this.#writable) {
@@ -367,22 +862,52 @@ export class Client implements AsyncDisposable {
     }
     await this.#messageHandlerPromise;
 
+    this.#offlineQueue?.clear(new NotConnectedError("client closed"));
+    for (const subscription of this.#subscriptions) {
+      subscription.close();
+      this.#forgetSubscriptions(subscription.topicFilters);
+    }
+    this.#subscriptions.clear();
+    this.#subscriptionTree.clear();
     this.#source.close();
     this.#source = new ClientSource();
     this.#readable = new ReadableStream<AllPacket | CustomPackets>(
       this.#source,
     );
     this.#messageHandlerPromise = undefined;
+    this.#setState("closed");
   }
 
   /**
    * @returns a promise that resolves when the connection was closed
    */
   async #handleMessages() {
+    if (!this.#sessionRestored) {
+      try {
+        await this.#restoreSession();
+      } catch (e: unknown) {
+        this.#sessionRestored = true;
+        this.#source.enqueue({
+          type: CustomPacketType.Error,
+          msg: Error.isError(e)
+            ? e
+            : new Error(`Couldn't restore the session: ${e}`),
+        });
+      }
+    }
     loop: while (this.#active) {
+      this.#setState("connecting");
       let con: LowLevelConnection;
+      const address = this.#redirectAddress ??
+        this.#addresses[this.#addressIndex]!;
+      this.#redirectAddress = undefined;
       try {
-        con = await connectLowLevel(this.address, this.properties);
+        con = await connectLowLevel(address, {
+          publishDeserializeOptions: this.properties?.publishDeserializeOptions,
+          topicAliasMaximum: this.#topicAliasMaximum,
+          protocolVersion: this.#protocolVersion,
+          transport: this.properties?.transport,
+        });
       } catch (e: unknown) {
         if (Error.isError(e)) {
           this.#source.enqueue({
@@ -395,19 +920,28 @@ export class Client implements AsyncDisposable {
             msg: new Error(`Unknown exception caught: ${e}`),
           });
         }
-        if (this.#active) {
-          await delay(
-            this.properties?.reconnectTime ??
-              DefaultClientProperties.reconnectTime,
-          );
+        if (!await this.#waitBeforeReconnect(e)) {
+          break loop;
         }
         continue;
       }
       this.#writable = con.writable.getWriter();
       const r = con.readable.getReader();
+      let connectedAt = 0;
+      const authenticationProvider = this.properties?.authenticationProvider;
       try {
         await this.#writable.write(
-          serializeConnectPacket(this.#connectPacket, this.#writer),
+          serializeConnectPacket({
+            ...this.#connectPacket,
+            properties: {
+              ...this.#connectPacket.properties,
+              ...(authenticationProvider && {
+                authentication_method: authenticationProvider.method,
+                authentication_data: await authenticationProvider.start(),
+              }),
+              topic_alias_maximum: this.#topicAliasMaximum,
+            },
+          }, this.#writer),
         );
         while (true) {
           const d = await deadline(r.read(), 1000);
@@ -424,14 +958,46 @@ export class Client implements AsyncDisposable {
                 await con.writable.close();
                 this.#source.enqueue({
                   type: CustomPacketType.FailedConnectionAttempt,
-                  msg: "See connectAck reason, no reconnect attempts",
+                  msg: new ConnectRejectedError(this.#connectAck),
                 });
-                break loop;
+                const redirect = this.#redirect(this.#connectAck, address);
+                if (
+                  !await this.#waitBeforeReconnect(
+                    redirect ?? this.#connectAck.connect_reason_code,
+                  )
+                ) {
+                  break loop;
+                }
+                continue loop;
+              }
+              const connectAck = this.#connectAck;
+              await this.#callAuthenticationProvider(() =>
+                authenticationProvider?.complete?.(
+                  toUint8Array(connectAck.properties?.authentication_data),
+                  connectAck,
+                )
+              );
+              if (this.#connectAck.session_present) {
+                await this.#resumeSession(this.#writable);
+              } else {
+                await this.#discardSession();
               }
+              this.#serverCapabilities = serverCapabilities(
+                this.#connectAck,
+                this.#protocolVersion,
+              );
+              this.#receiveMaximum = this.#serverCapabilities.receive_maximum;
+              this.#topicAliasPolicy.reset(
+                this.#connectAck.properties?.topic_alias_maximum ?? 0,
+              );
+              this.#releaseSendQuota();
               if (this.#connectPacket.client_id === undefined) {
                 const assigned_client_id = this.#connectAck?.properties
                   ?.assigned_client_id;
-                if (assigned_client_id === undefined) {
+                if (
+                  assigned_client_id === undefined &&
+                  this.#protocolVersion === ProtocolVersion.MQTT_5
+                ) {
                   console.error(
                     "No client_id was provided and the server didn't assign one to us",
                   );
@@ -441,9 +1007,38 @@ export class Client implements AsyncDisposable {
               }
               this.#writer.maximumPacketSize = this.#connectAck?.properties
                 ?.maximum_packet_size;
+              connectedAt = Date.now();
+              this.#setState("connected");
               this.#source.enqueue(this.#connectAck);
+              if (!this.#connectAck.session_present) {
+                // The SubAcks are received by the dispatch loop below
+                void this.#resubscribe().catch((e: unknown) => {
+                  this.#source.enqueue({
+                    type: CustomPacketType.Error,
+                    msg: Error.isError(e)
+                      ? e
+                      : new Error(`Couldn't resubscribe: ${e}`),
+                  });
+                });
+              }
+              void this.#flushOfflineQueue().catch((e: unknown) => {
+                this.#source.enqueue({
+                  type: CustomPacketType.Error,
+                  msg: Error.isError(e)
+                    ? e
+                    : new Error(`Couldn't send the offline queue: ${e}`),
+                });
+              });
               break;
             } else if (d.value.type === ControlPacketType.Auth) {
+              this.#setState("authenticating");
+              if (authenticationProvider) {
+                await this.#continueAuthentication(
+                  authenticationProvider,
+                  d.value,
+                );
+                continue;
+              }
               if (!this.#connectPacket.properties?.authentication_method) {
                 console.error(
                   "The server has send an unexpected auth packet, auth packet are only allowed if the connect packet contains an authentication_method",
@@ -456,18 +1051,23 @@ export class Client implements AsyncDisposable {
             this.#writable.releaseLock();
             r.releaseLock();
             await con.writable.close();
+            const err = new Error("No ConnAck");
             this.#source.enqueue({
               type: CustomPacketType.FailedConnectionAttempt,
-              msg: "No ConnAck",
+              msg: err,
             });
-            await delay(
-              this.properties?.reconnectTime ??
-                DefaultClientProperties.reconnectTime,
-            );
+            if (!await this.#waitBeforeReconnect(err)) {
+              break loop;
+            }
             continue loop; // retry connecting
           }
         }
       } catch (e: unknown) {
+        if (isReceivedProtocolError(e)) {
+          await this.#handleProtocolError(e);
+        } else if (e instanceof AuthenticationError) {
+          await this.#sendDisconnect(e.reason_code, e.message);
+        }
         try {
           if (con.writable.locked) {
             this.#writable.releaseLock();
@@ -490,10 +1090,9 @@ export class Client implements AsyncDisposable {
             msg: new Error(`Unknown exception caught: ${e}`),
           });
         }
-        await delay(
-          this.properties?.reconnectTime ??
-            DefaultClientProperties.reconnectTime,
-        );
+        if (!await this.#waitBeforeReconnect(e)) {
+          break loop;
+        }
         continue; // retry connecting
       }
 
@@ -560,6 +1159,8 @@ export class Client implements AsyncDisposable {
         }, keep_alive * 1000 - 100); // 100 is randomly selected to ensure we stay below the keep_alive time
       }
 
+      // The server can redirect the client with the Disconnect that closes the connection
+      let disconnect: DisconnectPacket | undefined;
       try {
         dispatchLoop: while (true) {
           // Read from the stream
@@ -572,8 +1173,48 @@ export class Client implements AsyncDisposable {
 
           const p = value;
           switch (p.type) {
+            case ControlPacketType.PubRec: {
+              const handler = this.#pendingReplies[p.packet_identifier];
+              if (handler === undefined) {
+                console.error(
+                  "the handler for the PacketIdentifier ",
+                  p.packet_identifier,
+                  " was undefined",
+                );
+              } else if (
+                (p.reason_code ?? PubRecReasonCode.Success) >= 0x80
+              ) {
+                // 4.3.3 the exchange ends with a failing PubRec
+                this.#pendingReplies[p.packet_identifier] = undefined;
+                await this.#completeOutgoing(p.packet_identifier);
+                handler.resolve(p);
+              } else {
+                const pubRel: PubRelPacket = {
+                  type: ControlPacketType.PubRel,
+                  packet_identifier: p.packet_identifier,
+                };
+                this.#inflight.set(p.packet_identifier, pubRel);
+                await this.#sessionStore.storePubRel(p.packet_identifier);
+                await this.#writable.write(
+                  serializePubRelPacket({
+                    packet_identifier: p.packet_identifier,
+                  }, this.#writer),
+                );
+              }
+
+              continue dispatchLoop;
+            }
+
+            case ControlPacketType.PubAck:
+            case ControlPacketType.PubComp:
             case ControlPacketType.SubAck:
             case ControlPacketType.UnsubAck: {
+              if (
+                p.type === ControlPacketType.PubAck ||
+                p.type === ControlPacketType.PubComp
+              ) {
+                await this.#completeOutgoing(p.packet_identifier);
+              }
               const handler = this.#pendingReplies[p.packet_identifier];
               this.#pendingReplies[p.packet_identifier] = undefined;
               if (handler === undefined) {
@@ -595,14 +1236,96 @@ export class Client implements AsyncDisposable {
             }
 
             case ControlPacketType.Publish: {
-              break;
+              if (!await this.#receivedPublish(p)) {
+                continue dispatchLoop;
+              }
+              const subscriptions = this.#subscriptionTree.match(p.topic);
+              if (subscriptions.size === 0) {
+                break;
+              }
+              for (const subscription of subscriptions) {
+                subscription.enqueue(p);
+              }
+              continue dispatchLoop;
+            }
+
+            case ControlPacketType.Auth: {
+              if (authenticationProvider === undefined) {
+                break;
+              }
+              try {
+                if (
+                  p.reason_code === AuthReasonCode.Continue_authentication
+                ) {
+                  await this.#continueAuthentication(authenticationProvider, p);
+                } else {
+                  await this.#callAuthenticationProvider(() =>
+                    authenticationProvider.complete?.(
+                      toUint8Array(p.properties?.authentication_data),
+                      p,
+                    )
+                  );
+                  this.#reauthentication?.resolve(p);
+                }
+              } catch (e: unknown) {
+                const err = Error.isError(e)
+                  ? e
+                  : new Error(`Re-authentication failed: ${e}`);
+                this.#reauthentication?.reject(err);
+                this.#source.enqueue({
+                  type: CustomPacketType.Error,
+                  msg: err,
+                });
+                if (err instanceof AuthenticationError) {
+                  await this.#sendDisconnect(err.reason_code, err.message);
+                }
+                break dispatchLoop;
+              }
+              continue dispatchLoop;
+            }
+
+            case ControlPacketType.Connect:
+            case ControlPacketType.Subscribe:
+            case ControlPacketType.Unsubscribe:
+            case ControlPacketType.PingReq:
+              // 4.13.2 only a client is allowed to send these packets
+              throw new MqttProtocolError(
+                `The server sent a ${ControlPacketType[p.type]} packet`,
+                DisconnectReasonCode.Protocol_Error,
+                { packet_type: p.type },
+              );
+
+            case ControlPacketType.Disconnect: {
+              disconnect = p;
+              // 3.14.4 the server closes the connection after sending a Disconnect
+              this.#source.enqueue(p);
+              break dispatchLoop;
+            }
+
+            case ControlPacketType.PubRel: {
+              const known = this.#receivedQoS2.delete(p.packet_identifier);
+              if (known) {
+                await this.#sessionStore.removeReceived(p.packet_identifier);
+              }
+              await this.#writable.write(
+                serializePubCompPacket({
+                  packet_identifier: p.packet_identifier,
+                  reason_code: known
+                    ? PubCompReasonCode.Success
+                    : PubCompReasonCode.Packet_Identifier_not_found,
+                }, this.#writer),
+              );
+              continue dispatchLoop;
             }
           }
 
           this.#source.enqueue(p);
         }
-      } catch {
-        // The stream was closed, we can ignore this error, e.g. network error
+      } catch (e: unknown) {
+        if (isReceivedProtocolError(e)) {
+          await this.#handleProtocolError(e);
+        }
+        // Otherwise the stream was closed, we can ignore this error, e.g. network error
       }
 
       if (this.#pingIntervalId) {
@@ -623,27 +1346,529 @@ export class Client implements AsyncDisposable {
         // We don't really care if an error occurred while closing the connection
       }
 
-      this.#clearPendingReplies(new Error("connection closed"));
+      this.#clearPendingReplies(
+        new NotConnectedError("connection closed"),
+        this.#active,
+      );
+      this.#reauthentication?.reject(
+        new NotConnectedError("connection closed"),
+      );
 
       this.#source.enqueue({ type: CustomPacketType.ConnectionClosed });
+      if (this.#active) {
+        this.#setState("reconnecting");
+      }
+
+      if (
+        Date.now() - connectedAt >=
+          (this.properties?.stableConnectionTime ??
+            DefaultClientProperties.stableConnectionTime)
+      ) {
+        this.#reconnectAttempt = 0;
+        this.#redirectHops = 0;
+      }
+      const redirect = disconnect && this.#redirect(disconnect, address);
+      if (
+        !await this.#waitBeforeReconnect(redirect ?? new ConnectionLostError())
+      ) {
+        break loop;
+      }
+    }
+
+    for (const waiter of this.#sendQuotaWaiters.splice(0)) {
+      waiter.reject(new NotConnectedError("connection closed"));
+    }
+    if (this.#active) {
+      // the reconnect strategy gave up
+      this.#setState("closed");
+    }
+  }
+
+  /**
+   * Answers an AUTH packet with the reason code Continue_authentication using the authentication provider.
+   * @throws {MqttProtocolError} if the packet has another reason code
+   * @throws {AuthenticationError} if the provider failed
+   */
+  async #continueAuthentication(
+    provider: AuthenticationProvider,
+    packet: AuthPacket,
+  ) {
+    if (packet.reason_code !== AuthReasonCode.Continue_authentication) {
+      throw new MqttProtocolError(
+        `Unexpected AUTH packet during the authentication, reason_code=${
+          AuthReasonCode[packet.reason_code ?? AuthReasonCode.Success]
+        }`,
+      );
+    }
+    const authentication_data = await this.#callAuthenticationProvider(() =>
+      provider.continue(
+        toUint8Array(packet.properties?.authentication_data),
+        packet,
+      )
+    );
+    await this.#writable!.write(
+      serializeAuthPacket({
+        reason_code: AuthReasonCode.Continue_authentication,
+        properties: {
+          authentication_method: provider.method,
+          authentication_data,
+        },
+      }, this.#writer),
+    );
+  }
+
+  /**
+   * Follows a server redirection, if the packet contains Use_another_server or Server_moved and a server_reference.
+   * At most maximumRedirects consecutive redirections are followed, so servers that redirect
+   * to each other don't keep the client busy.
+   * 4.11 https://docs.oasis-open.org/mqtt/mqtt/v5.0/os/mqtt-v5.0-os.html#_Toc3901255
+   * @param packet the received ConnAck or Disconnect packet
+   * @param current the address of the server that sent the packet
+   * @returns the failure passed to the reconnect strategy if the next connection attempt uses the referenced server
+   */
+  #redirect(
+    packet: ConnAckPacket | DisconnectPacket,
+    current: URL | string,
+  ): ServerRedirectError | undefined {
+    const [permanent, temporary] = packet.type === ControlPacketType.ConnAck
+      ? [
+        packet.connect_reason_code === ConnectReasonCode.Server_moved,
+        packet.connect_reason_code === ConnectReasonCode.Use_another_server,
+      ]
+      : [
+        packet.reason_code === DisconnectReasonCode.Server_moved,
+        packet.reason_code === DisconnectReasonCode.Use_another_server,
+      ];
+    if (!permanent && !temporary) {
+      return undefined;
+    }
+    // The format of the server_reference is not specified, the first entry of a space separated list of
+    // host[:port] or URLs is used. The protocol and path of the current address are kept for host[:port].
+    const reference = packet.properties?.server_reference?.trim().split(
+      /\s+/,
+    )[0];
+    if (!reference) {
+      return undefined;
+    }
+    let url: URL;
+    try {
+      if (reference.includes("://")) {
+        url = new URL(reference);
+      } else {
+        url = new URL(current);
+        const host = new URL(`${url.protocol}//${reference}`);
+        url.hostname = host.hostname;
+        url.port = host.port;
+      }
+    } catch {
+      return undefined;
+    }
+    const maximumRedirects = this.properties?.maximumRedirects ??
+      DefaultClientProperties.maximumRedirects;
+    if (this.#redirectHops >= maximumRedirects) {
+      this.#source.enqueue({
+        type: CustomPacketType.Error,
+        msg: new MqttError(
+          `Not following the redirection to ${url}, already followed ${maximumRedirects} redirections`,
+        ),
+      });
+      return undefined;
+    }
+    ++this.#redirectHops;
+    if (permanent) {
+      this.#addresses[this.#addressIndex] = url;
+    } else {
+      this.#redirectAddress = url;
+    }
+    return new ServerRedirectError(packet, url);
+  }
+
+  /**
+   * 4.13 Reports a malformed packet or protocol error of the server and sends a DISCONNECT with its reason code.
+   * The connection is closed afterward by the caller.
+   */
+  async #handleProtocolError(error: MqttProtocolError) {
+    this.#source.enqueue({
+      type: CustomPacketType.ProtocolError,
+      error,
+      packet_type: error.packet_type,
+      bytes: error.bytes,
+    });
+    await this.#sendDisconnect(error.reason_code, error.message);
+  }
+
+  /**
+   * Sends a DISCONNECT, the connection is closed afterward by the caller.
+   * @param reason_code the reason code of the DISCONNECT
+   * @param reason_string describes the reason, it is truncated
+   */
+  async #sendDisconnect(
+    reason_code: DisconnectReasonCode,
+    reason_string: string,
+  ) {
+    try {
+      await this.#writable?.write(
+        serializeDisconnectPacket({
+          reason_code,
+          // the reason_string must not exceed the maximum_packet_size of the server
+          properties: { reason_string: reason_string.substring(0, 256) },
+        }, this.#writer),
+      );
+    } catch {
+      // The connection could already be closed
+    }
+  }
+
+  /**
+   * Calls the authentication provider and wraps its failures in an AuthenticationError.
+   */
+  async #callAuthenticationProvider<T>(
+    call: () => T | Promise<T>,
+  ): Promise<T> {
+    try {
+      return await call();
+    } catch (e: unknown) {
+      if (e instanceof AuthenticationError) {
+        throw e;
+      }
+      throw new AuthenticationError(
+        `The authentication provider failed: ${
+          Error.isError(e) ? e.message : e
+        }`,
+        DisconnectReasonCode.Not_authorized,
+        { cause: e },
+      );
+    }
+  }
+
+  /**
+   * Waits before the next connection attempt, as decided by the reconnect strategy.
+   * @param failure the reason why the connection attempt failed or the connection was lost
+   * @returns false if the strategy gave up or the client was closed
+   */
+  async #waitBeforeReconnect(
+    failure: unknown,
+  ): Promise<boolean> {
+    if (!this.#active) {
+      return false;
+    }
+    this.#setState("reconnecting");
+    if (
+      !(failure instanceof ConnectionLostError) &&
+      !(failure instanceof ServerRedirectError)
+    ) {
+      this.#addressIndex = (this.#addressIndex + 1) % this.#addresses.length;
     }
+    const ms = this.#reconnectStrategy(
+      ++this.#reconnectAttempt,
+      typeof failure === "number" || Error.isError(failure)
+        ? failure
+        : new Error(`Unknown exception caught: ${failure}`),
+    );
+    if (ms === undefined) {
+      this.#source.enqueue({
+        type: CustomPacketType.FailedConnectionAttempt,
+        msg: `Gave up reconnecting after ${this.#reconnectAttempt} attempts`,
+      });
+      return false;
+    }
+    if (ms > 0) {
+      try {
+        await delay(ms, { signal: this.#reconnectAbort.signal });
+      } catch {
+        // aborted by close()
+      }
+    }
+    return this.#active;
+  }
+
+  /**
+   * Serializes an outgoing publish and replaces the topic with a topic alias if the policy provides one.
+   * The message has to be written directly afterward, since the alias mapping depends on the order of the messages.
+   * @param packet the publish
+   * @param serialized the publish serialized without a topic alias, it is reused if no alias is assigned
+   */
+  #serializeOutgoingPublish(
+    packet: MakeSerializePacketType<PublishPacket>,
+    serialized?: Uint8Array,
+  ): Uint8Array {
+    if (packet.properties?.topic_alias !== undefined) {
+      // The application manages the topic alias
+      return serialized ?? serializePublishPacket(packet, this.#writer);
+    }
+    const alias = this.#topicAliasPolicy.get(packet.topic);
+    if (alias === undefined) {
+      return serialized ?? serializePublishPacket(packet, this.#writer);
+    }
+    try {
+      return serializePublishPacket({
+        ...packet,
+        topic: alias.known ? "" as Topic : packet.topic,
+        properties: { ...packet.properties, topic_alias: alias.alias },
+      }, this.#writer);
+    } catch (e: unknown) {
+      // The alias was not sent, start over to ensure every alias is sent together with its topic
+      this.#topicAliasPolicy.reset(
+        this.#connectAck?.properties?.topic_alias_maximum ?? 0,
+      );
+      throw e;
+    }
+  }
+
+  /**
+   * Acknowledges a received publish, unless manualAcknowledgement is enabled.
+   * @returns false if the packet is a QoS 2 duplicate that must not be delivered again
+   */
+  async #receivedPublish(p: PublishPacket): Promise<boolean> {
+    const manual = this.properties?.manualAcknowledgement ??
+      DefaultClientProperties.manualAcknowledgement;
+    switch (p.qos) {
+      case QoS.At_least_once_delivery:
+        if (!manual) {
+          await this.acknowledge(p);
+        }
+        return true;
+      case QoS.Exactly_once_delivery: {
+        const pubRecSent = this.#receivedQoS2.get(p.packet_identifier!);
+        if (pubRecSent === undefined) {
+          this.#receivedQoS2.set(p.packet_identifier!, false);
+          if (!manual) {
+            await this.acknowledge(p);
+          }
+          return true;
+        }
+        // 4.3.3 a duplicate, the message was already delivered to the application
+        if (pubRecSent) {
+          await this.acknowledge(p);
+        }
+        return false;
+      }
+    }
+    return true;
+  }
+
+  /**
+   * Acknowledges a received QoS 1 (PubAck) or QoS 2 (PubRec) publish.
+   * Only required if manualAcknowledgement is enabled, QoS 0 publishes are ignored.
+   * The PubComp for QoS 2 publishes is always sent automatically.
+   * @param packet the received publish packet
+   * @param reason_code the reason code sent to the server, defaults to Success
+   * @returns a promise that resolves when the acknowledgement was sent
+   * @throws if the connection is not connected or the write fails
+   */
+  async acknowledge(
+    packet: PublishPacket,
+    reason_code?: PubAckReasonCode | PubRecReasonCode,
+  ) {
+    if (
+      packet.qos === undefined || packet.qos === QoS.At_most_once_delivery
+    ) {
+      return;
+    }
+    if (this.#writable === undefined) {
+      throw new NotConnectedError();
+    }
+    const packet_identifier = packet.packet_identifier!;
+    if (packet.qos === QoS.At_least_once_delivery) {
+      await this.#writable.write(
+        serializePubAckPacket({
+          packet_identifier,
+          reason_code: reason_code as PubAckReasonCode | undefined,
+        }, this.#writer),
+      );
+      return;
+    }
+    if ((reason_code ?? PubRecReasonCode.Success) >= 0x80) {
+      // 4.3.3 a failing PubRec ends the exchange
+      this.#receivedQoS2.delete(packet_identifier);
+    } else {
+      this.#receivedQoS2.set(packet_identifier, true);
+      await this.#sessionStore.storeReceived(packet_identifier);
+    }
+    await this.#writable.write(
+      serializePubRecPacket({
+        packet_identifier,
+        reason_code: reason_code as PubRecReasonCode | undefined,
+      }, this.#writer),
+    );
   }
 
   /**
    * Publishes a message to the MQTT server.
+   * For QoS 1 the message is kept in flight until the server acknowledged it with a PubAck.
+   * For QoS 2 the PubRel is sent automatically after the PubRec was received,
+   * the message is kept in flight until the server completed the exchange with a PubComp.
    * @param packet the packet to publish, the packet_identifier is set automatically
-   * @returns a promise that resolves when the message was sent
-   * @throws if the connection is not connected or the write fails
+   * If the connection is lost, in-flight messages are retransmitted when the session is resumed after the reconnect.
+   * A QoS 1/2 message whose write failed is in flight as well, its publish is not rejected by the failed write.
+   * If the offlineQueue is enabled, messages published while the client is not connected are queued
+   * and sent in order after the next successful connect.
+   * @returns a promise that resolves when the message was sent (QoS 0), with the PubAckPacket (QoS 1) or the PubCompPacket (QoS 2)
+   * @throws {NotConnectedError} if the connection is not connected (without offlineQueue)
+   * @throws if the write fails (QoS 0)
+   * @throws {MqttError} if the message was dropped from the offline queue or expired in it
+   * @throws {MqttError} if the session was not resumed by the server
+   * @throws {NotConnectedError} if the client was closed before the exchange was completed
+   * @throws {CapabilityError} if the server doesn't support the QoS (without downgradeQoS) or retained messages
+   * @throws {PublishError} if the server acknowledged the message with a failure reason code
    */
   async publish(
     packet: MakeSerializePacketType<PublishPacket>,
-  ) {
+  ): Promise<PubAckPacket | PubCompPacket | undefined> {
+    // Queued messages are sent first to keep the order, until the last one was written
+    if (
+      this.#offlineQueue &&
+      (this.#writable === undefined || this.#flushingOfflineQueue ||
+        this.#offlineQueue.length !== 0)
+    ) {
+      return this.#offlineQueue.push(
+        packet,
+        // the size is also a validation of the packet, the identifier is only a placeholder
+        serializePublishPacket({
+          ...packet,
+          packet_identifier: (packet.qos ?? QoS.At_most_once_delivery) ===
+              QoS.At_most_once_delivery
+            ? undefined
+            : 1 as PacketIdentifier,
+        }, this.#writer).byteLength,
+      );
+    }
+    return await (await this.#sendPublish(packet)).reply;
+  }
+
+  /**
+   * Sends a publish.
+   * @returns a promise that resolves when the message was written, reply is the result of publish()
+   */
+  async #sendPublish(
+    packet: MakeSerializePacketType<PublishPacket>,
+  ): Promise<{ reply: Promise<PubAckPacket | PubCompPacket | undefined> }> {
     if (this.#writable === undefined) {
-      throw new Error("not connected");
+      throw new NotConnectedError();
+    }
+    if (this.#serverCapabilities) {
+      packet = checkPublishCapabilities(
+        packet,
+        this.#serverCapabilities,
+        this.properties?.downgradeQoS ?? DefaultClientProperties.downgradeQoS,
+      );
     }
 
-    const msg = serializePublishPacket(packet, this.#writer);
-    await this.#writable.write(msg);
+    const qos = packet.qos ?? QoS.At_most_once_delivery;
+    if (qos === QoS.At_most_once_delivery) {
+      const msg = this.#serializeOutgoingPublish(packet);
+      await this.#writable.write(msg);
+      return { reply: Promise.resolve(undefined) };
+    }
+
+    if (qos === QoS.Reserved) {
+      throw new InvalidPacketError(
+        `Publishing with ${QoS[qos]} is not allowed`,
+        ControlPacketType.Publish,
+      );
+    }
+
+    await this.#acquireSendQuota();
+    const writable = this.#writable;
+    if (writable === undefined) {
+      this.#returnSendQuota();
+      throw new NotConnectedError();
+    }
+    const [packet_identifier, promise] = this.#getPacketIdentifierHandler();
+    const p: PublishPacket = {
+      ...packet,
+      type: ControlPacketType.Publish,
+      packet_identifier,
+    };
+    let serialized: Uint8Array;
+    try {
+      // ensure the packet is valid, before it becomes part of the session state
+      serialized = serializePublishPacket(p, this.#writer);
+    } catch (e: unknown) {
+      this.#pendingReplies[packet_identifier] = undefined;
+      this.#returnSendQuota();
+      throw e;
+    }
+    this.#inflight.set(packet_identifier, p);
+    this.#returnSendQuota();
+
+    try {
+      await this.#sessionStore.storePublish(p);
+    } catch (e: unknown) {
+      this.#pendingReplies[packet_identifier] = undefined;
+      await this.#completeOutgoing(packet_identifier);
+      throw e;
+    }
+
+    // If the connection changed in the meantime, the message was already retransmitted or will be
+    // retransmitted if the session is resumed after a reconnect
+    if (writable === this.#writable) {
+      const msg = this.#serializeOutgoingPublish(p, serialized);
+      try {
+        await writable.write(msg);
+      } catch {
+        // The connection was lost, the message stays in flight. It is retransmitted with dup
+        // if the session is resumed after the reconnect, otherwise the publish is rejected.
+      }
+    }
+
+    return {
+      reply: promise.then((reply) => {
+        switch (reply.type) {
+          case ControlPacketType.PubAck:
+          case ControlPacketType.PubRec:
+          case ControlPacketType.PubComp:
+            if ((reply.reason_code ?? PubAckReasonCode.Success) >= 0x80) {
+              throw new PublishError(reply);
+            }
+            if (reply.type !== ControlPacketType.PubRec) {
+              return reply;
+            }
+        }
+
+        throw new MqttProtocolError(
+          `Didn't receive the expected ${
+            qos === QoS.At_least_once_delivery ? "PubAck" : "PubComp"
+          } packet received=${reply}`,
+        );
+      }),
+    };
+  }
+
+  /**
+   * Sends the messages of the offline queue in order, stops if the connection is lost.
+   */
+  async #flushOfflineQueue() {
+    const queue = this.#offlineQueue;
+    if (queue === undefined || this.#flushingOfflineQueue) {
+      return;
+    }
+    this.#flushingOfflineQueue = true;
+    try {
+      while (this.#writable !== undefined) {
+        const entry = queue.shiftUnexpired();
+        if (entry === undefined) {
+          break;
+        }
+        try {
+          (await this.#sendPublish(entry.packet)).reply.then(
+            entry.resolve,
+            entry.reject,
+          );
+        } catch (e: unknown) {
+          if (this.#writable === undefined) {
+            // the connection was lost before the message was sent, it is sent after the next connect
+            queue.unshift(entry);
+            break;
+          }
+          entry.reject(
+            Error.isError(e) ? e : new Error(`Couldn't publish: ${e}`),
+          );
+        }
+      }
+    } finally {
+      this.#flushingOfflineQueue = false;
+    }
   }
 
   /**
@@ -652,27 +1877,71 @@ export class Client implements AsyncDisposable {
    * @param packet the auth packet to send
    * @returns a promise that resolves when the message was sent
    * @throws if the connection is not connected or the write fails
+   * @throws {MqttError} if the client uses MQTT 3.1.1
    */
   async auth(
     packet: MakeSerializePacketType<AuthPacket>,
   ) {
+    this.#requireMqtt5("AUTH");
     if (this.#writable === undefined) {
-      throw new Error("not connected");
+      throw new NotConnectedError();
     }
 
     const msg = serializeAuthPacket(packet, this.#writer);
     await this.#writable.write(msg);
   }
 
+  /**
+   * Starts a re-authentication on the running connection with the authenticationProvider,
+   * e.g. before a token expires.
+   * 4.12.1 https://docs.oasis-open.org/mqtt/mqtt/v5.0/os/mqtt-v5.0-os.html#_Toc3901257
+   * @returns a promise that resolves with the AUTH packet the server sent on success
+   * @throws if no authenticationProvider is configured, the connection is not connected,
+   * the provider failed or the connection was closed, e.g. the server rejected the re-authentication
+   */
+  async reauthenticate(): Promise<AuthPacket> {
+    const provider = this.properties?.authenticationProvider;
+    if (provider === undefined) {
+      throw new Error("reauthenticate requires an authenticationProvider");
+    }
+    if (this.#writable === undefined) {
+      throw new NotConnectedError();
+    }
+    if (this.#reauthentication) {
+      return this.#reauthentication.promise;
+    }
+    const reauthentication = Promise.withResolvers<AuthPacket>();
+    this.#reauthentication = reauthentication;
+    try {
+      await this.#writable.write(
+        serializeAuthPacket({
+          reason_code: AuthReasonCode.Re_authenticate,
+          properties: {
+            authentication_method: provider.method,
+            authentication_data: await provider.start(),
+          },
+        }, this.#writer),
+      );
+      return await reauthentication.promise;
+    } finally {
+      this.#reauthentication = undefined;
+    }
+  }
+
   /**
    * Subscribes to a topic on the MQTT server.
    * @param packet the packet to subscribe, the packet_identifier is set automatically
    * @returns a promise that resolves with the SubAckPacket when the subscription was successful
    * @throws if the connection is not connected, the write fails or no SubAckPacket is received
+   * @throws {SubscribeError} if the server rejected at least one topic filter, the accepted ones are subscribed
+   * @throws {CapabilityError} if the server doesn't support wildcards, shared subscriptions or subscription identifiers
    */
   async subscribe(
     packet: MakeSerializePacketType<Omit<SubscribePacket, "packet_identifier">>,
   ): Promise<SubAckPacket> {
+    if (this.#serverCapabilities) {
+      checkSubscribeCapabilities(packet, this.#serverCapabilities);
+    }
     const [packet_identifier, promise] = this.#getPacketIdentifierHandler();
     const p: Omit<SubscribePacket, "type"> = {
       ...structuredClone(packet),
@@ -684,11 +1953,27 @@ export class Client implements AsyncDisposable {
     const reply = await promise;
 
     if (reply.type !== ControlPacketType.SubAck) {
-      throw new Error(
+      throw new MqttProtocolError(
         `Didn't receive the expected SubAck packet send=${p} received=${reply}`,
       );
     }
 
+    let failed = false;
+    p.subscriptions.forEach((subscription, i) => {
+      if ((reply.reason_codes[i] ?? 0x80) < 0x80) {
+        this.#activeSubscriptions.set(subscription.topic, {
+          subscription,
+          properties: p.properties,
+        });
+      } else {
+        failed = true;
+        this.#activeSubscriptions.delete(subscription.topic);
+      }
+    });
+
+    if (failed) {
+      throw new SubscribeError(reply, p.subscriptions.map((s) => s.topic));
+    }
     return reply;
   }
 
@@ -711,15 +1996,346 @@ export class Client implements AsyncDisposable {
 
     const subMsg = serializeUnsubscribePacket(p, this.#writer);
     await this.#writable?.write(subMsg);
+    this.#forgetSubscriptions(p.topic_filters);
 
     const reply = await promise;
 
     if (reply.type !== ControlPacketType.UnsubAck) {
-      throw new Error(
+      throw new MqttProtocolError(
         `Didn't receive the expected UnsubAck packet send=${p} received=${reply}`,
       );
     }
 
     return reply;
   }
+
+  /**
+   * Subscribes to the topic filters and returns a Subscription that provides the matching publishes.
+   * Publishes that match a Subscription are only passed to the matching Subscriptions and not to the readable of the client.
+   * Shared subscriptions ($share/{group}/{filter}) are matched by their filter.
+   * Disposing the Subscription sends an UNSUBSCRIBE for the topic filters that are not used by another Subscription.
+   * The Subscription is closed if the client is closed.
+   * @example
+   * ```ts
+   * await using sub = await client.subscribeStream({
+   *   subscriptions: [{ topic: mqtt.asTopicFilter("sensors/+/temperature") }],
+   * });
+   * for await (const p of sub) {
+   *   console.log(p.topic, p.payload);
+   * }
+   * ```
+   * @param packet the packet to subscribe, the packet_identifier is set automatically
+   * @returns a promise that resolves with the Subscription when the server sent the SubAckPacket
+   * @throws if the connection is not connected, the write fails or no SubAckPacket is received
+   * @throws {SubscribeError} if the server rejected at least one topic filter, nothing is subscribed
+   * @throws {CapabilityError} if the server doesn't support wildcards, shared subscriptions or subscription identifiers
+   */
+  async subscribeStream(
+    packet: MakeSerializePacketType<Omit<SubscribePacket, "packet_identifier">>,
+  ): Promise<Subscription> {
+    const subscription = new Subscription(
+      packet.subscriptions.map((s) => s.topic),
+      (s) => this.#disposeSubscription(s),
+    );
+    // Registered before the subscribe is sent, retained messages may arrive directly after the SubAck
+    this.#addSubscription(subscription);
+    try {
+      subscription.subAck = await this.subscribe(packet);
+    } catch (e: unknown) {
+      subscription.close();
+      if (e instanceof SubscribeError) {
+        // unsubscribe the topic filters the server accepted
+        await this.#disposeSubscription(subscription).catch(() => {});
+      } else {
+        this.#removeSubscription(subscription);
+      }
+      throw e;
+    }
+    return subscription;
+  }
+
+  #forgetSubscriptions(topic_filters: readonly TopicFilter[]) {
+    for (const filter of topic_filters) {
+      this.#activeSubscriptions.delete(filter);
+    }
+  }
+
+  /**
+   * Replays the active subscriptions, subscriptions with the same properties are sent in one SUBSCRIBE packet.
+   * The results are reported on the readable.
+   */
+  async #resubscribe() {
+    if (
+      !(this.properties?.resubscribe ?? DefaultClientProperties.resubscribe)
+    ) {
+      return;
+    }
+    const packets = new Map<
+      string,
+      Omit<SubscribePacket, "type" | "packet_identifier">
+    >();
+    for (
+      const { subscription, properties } of this.#activeSubscriptions.values()
+    ) {
+      const key = JSON.stringify(properties ?? {});
+      let packet = packets.get(key);
+      if (packet === undefined) {
+        packet = { subscriptions: [], properties };
+        packets.set(key, packet);
+      }
+      packet.subscriptions.push(subscription);
+    }
+    for (const packet of packets.values()) {
+      try {
+        const subAck = await this.subscribe(packet);
+        this.#source.enqueue({
+          type: CustomPacketType.Resubscribed,
+          subscriptions: packet.subscriptions,
+          subAck,
+        });
+      } catch (e: unknown) {
+        if (e instanceof SubscribeError) {
+          // the rejected topic filters are part of the SubAck
+          this.#source.enqueue({
+            type: CustomPacketType.Resubscribed,
+            subscriptions: packet.subscriptions,
+            subAck: e.packet,
+          });
+          continue;
+        }
+        this.#source.enqueue({
+          type: CustomPacketType.Error,
+          msg: Error.isError(e) ? e : new Error(`Couldn't resubscribe: ${e}`),
+        });
+      }
+    }
+  }
+
+  #addSubscription(subscription: Subscription) {
+    this.#subscriptions.add(subscription);
+    for (const filter of subscription.topicFilters) {
+      this.#subscriptionTree.add(filter, subscription);
+    }
+  }
+
+  /** @returns false if the subscription was already removed */
+  #removeSubscription(subscription: Subscription): boolean {
+    if (!this.#subscriptions.delete(subscription)) {
+      return false;
+    }
+    for (const filter of subscription.topicFilters) {
+      this.#subscriptionTree.delete(filter, subscription);
+    }
+    return true;
+  }
+
+  /**
+   * Removes the subscription and unsubscribes from the topic filters that are not used by another subscription.
+   */
+  async #disposeSubscription(subscription: Subscription) {
+    if (!this.#removeSubscription(subscription)) {
+      return;
+    }
+    const stillUsed = new Set<TopicFilter>();
+    for (const s of this.#subscriptions) {
+      for (const filter of s.topicFilters) {
+        stillUsed.add(filter);
+      }
+    }
+    const topic_filters = [...new Set(subscription.topicFilters)].filter((
+      filter,
+    ) => !stillUsed.has(filter));
+    if (topic_filters.length === 0) {
+      return;
+    }
+    if (this.#writable === undefined) {
+      // The UNSUBSCRIBE can't be sent without a connection, at least don't replay the subscriptions
+      this.#forgetSubscriptions(topic_filters);
+      return;
+    }
+    await this.unsubscribe({ topic_filters });
+  }
+
+  /**
+   * Sends a request and waits for the response, using the MQTT 5 request/response pattern.
+   * 4.10 https://docs.oasis-open.org/mqtt/mqtt/v5.0/os/mqtt-v5.0-os.html#_Toc3901252
+   * The first request subscribes to a response topic, that is used by all following requests.
+   * The response topic is based on the response_information of the ConnAck, set request_response_information
+   * in the connect packet to request it from the server.
+   * The publish is sent with the response_topic and a random correlation_data,
+   * the responder has to send the response to the response_topic and include the correlation_data.
+   * @param topic the topic of the request
+   * @param payload the payload of the request
+   * @param options - Optional configuration
+   * @param options.timeout - Time in milliseconds to wait for the response
+   * @param options.signal - Aborts waiting for the response
+   * @param options.qos - The QoS of the request, defaults to QoS.At_most_once_delivery
+   * @param options.properties - Additional properties of the request publish
+   * @returns a promise that resolves with the response publish
+   * @throws if the request couldn't be sent, the timeout expired, the signal was aborted or the client was closed
+   * @throws {MqttError} if the client uses MQTT 3.1.1
+   */
+  async request(
+    topic: Topic,
+    payload?: PublishPacket["payload"],
+    options?: {
+      timeout?: Milliseconds;
+      signal?: AbortSignal;
+      qos?: QoS;
+      properties?: Omit<
+        NonNullable<PublishPacket["properties"]>,
+        "response_topic" | "correlation_data"
+      >;
+    },
+  ): Promise<PublishPacket> {
+    this.#requireMqtt5("request");
+    const correlation_data = crypto.getRandomValues(new Uint8Array(16));
+    const key = toHexString(correlation_data);
+    const response = Promise.withResolvers<PublishPacket>();
+    this.#pendingRequests.set(key, response);
+    // The timeout and the signal also cover the subscribe and the publish, which wait while the client is disconnected
+    const exchange = (async () => {
+      const subscription = await this.#getResponseSubscription();
+      await this.publish({
+        topic,
+        payload,
+        qos: options?.qos,
+        properties: {
+          ...options?.properties,
+          response_topic: subscription.topicFilters[0] as string as Topic,
+          correlation_data,
+        },
+      });
+      return await response.promise;
+    })();
+    try {
+      if (options?.timeout !== undefined) {
+        return await deadline(exchange, options.timeout, {
+          signal: options.signal,
+        });
+      }
+      if (options?.signal) {
+        return await abortable(exchange, options.signal);
+      }
+      return await exchange;
+    } finally {
+      this.#pendingRequests.delete(key);
+      // the exchange is abandoned if the timeout expired or the signal was aborted
+      exchange.catch(() => {});
+    }
+  }
+
+  #getResponseSubscription(): Promise<Subscription> {
+    if (this.#responseSubscription === undefined) {
+      const base = this.#connectAck?.properties?.response_information
+        ?.replace(/\/+$/, "") || "responses";
+      const subscription = this.subscribeStream({
+        subscriptions: [{
+          topic: asTopic(`${base}/${nanoid()}`) as string as TopicFilter,
+        }],
+      });
+      this.#responseSubscription = subscription;
+      subscription.then(
+        (s) => this.#dispatchResponses(s),
+        () => {
+          this.#responseSubscription = undefined;
+        },
+      );
+    }
+    return this.#responseSubscription;
+  }
+
+  /**
+   * Passes the responses to the waiting requests until the subscription is closed.
+   */
+  async #dispatchResponses(subscription: Subscription) {
+    for await (const p of subscription) {
+      const correlation_data = toUint8Array(p.properties?.correlation_data);
+      if (correlation_data !== undefined) {
+        this.#pendingRequests.get(toHexString(correlation_data))?.resolve(p);
+      }
+    }
+    this.#responseSubscription = undefined;
+    for (const response of this.#pendingRequests.values()) {
+      response.reject(new NotConnectedError("client closed"));
+    }
+    this.#pendingRequests.clear();
+  }
+
+  /**
+   * Answers requests sent with request() or any other MQTT 5 requester.
+   * The handler is called for every publish matching the filter, the returned payload is published
+   * to the response_topic of the request together with its correlation_data.
+   * If the handler throws, the response contains the error message in the user property ServeErrorUserPropertyKey.
+   * Requests without a response_topic are passed to the handler, but not answered.
+   * @param filter the topic filter of the requests, may be a shared subscription ($share/{group}/{filter})
+   * @param handler called for every request, requests are handled concurrently
+   * @param options - Optional configuration
+   * @param options.group - Subscribes with $share/{group}/{filter} to share the requests between multiple responders
+   * @param options.qos - The QoS of the subscription and the responses, defaults to QoS.At_most_once_delivery
+   * @returns the Subscription of the requests, disposing it stops serving
+   * @throws if the subscribe failed
+   * @throws {MqttError} if the client uses MQTT 3.1.1
+   */
+  async serve(
+    filter: TopicFilter,
+    handler: ServeHandler,
+    options?: { group?: string; qos?: QoS },
+  ): Promise<Subscription> {
+    this.#requireMqtt5("serve");
+    const subscription = await this.subscribeStream({
+      subscriptions: [{
+        topic: options?.group === undefined
+          ? filter
+          : asTopicFilter(`$share/${options.group}/${filter}`),
+        qos: options?.qos,
+      }],
+    });
+    const report = (e: unknown) =>
+      this.#source.enqueue({
+        type: CustomPacketType.Error,
+        msg: Error.isError(e) ? e : new Error(`Couldn't serve ${filter}: ${e}`),
+      });
+    void (async () => {
+      for await (const request of subscription) {
+        // requests are handled concurrently, a failing request doesn't stop serving
+        void this.#serveRequest(request, handler, options?.qos).catch(report);
+      }
+    })().catch(report);
+    return subscription;
+  }
+
+  /**
+   * Calls the handler and publishes its result or error to the response_topic of the request.
+   * @throws if the response couldn't be sent
+   */
+  async #serveRequest(
+    request: PublishPacket,
+    handler: ServeHandler,
+    qos?: QoS,
+  ) {
+    let payload: PublishPacket["payload"];
+    let user_properties: UserProperty[] | undefined;
+    try {
+      payload = await handler(request);
+    } catch (e: unknown) {
+      user_properties = [{
+        key: ServeErrorUserPropertyKey,
+        value: Error.isError(e) ? e.message : `${e}`,
+      }];
+    }
+    const response_topic = request.properties?.response_topic;
+    if (response_topic === undefined) {
+      return;
+    }
+    await this.publish({
+      topic: response_topic,
+      payload,
+      qos,
+      properties: {
+        correlation_data: request.properties?.correlation_data,
+        user_properties,
+      },
+    });
+  }
 }
@@ -1,7 +1,13 @@
 /**
  * Copyright 2023-2026 Bernd Amend. MIT license.
  */
-import type { AllPacket } from "./packets.ts";
+import type {
+  AllPacket,
+  ControlPacketType,
+  SubAckPacket,
+  SubscribePacket,
+} from "./packets.ts";
+import type { MqttProtocolError } from "./errors.ts";
 
 /**
  * Custom packet types for internal client events.
@@ -11,7 +17,9 @@ export enum CustomPacketType {
   FailedConnectionAttempt = 101,
   PingFailed = 102,
   CloseLocally = 103,
+  Resubscribed = 104,
   Error = 200,
+  ProtocolError = 201,
 }
 
 /**
@@ -27,6 +35,22 @@ export type CustomPackets = {
     | CustomPacketType.ConnectionClosed
     | CustomPacketType.PingFailed
     | CustomPacketType.CloseLocally;
+} | {
+  /** The subscriptions were replayed after a reconnect without a resumed session. */
+  type: CustomPacketType.Resubscribed;
+  subscriptions: SubscribePacket["subscriptions"];
+  subAck: SubAckPacket;
+} | {
+  /**
+   * The server sent a malformed packet or violated the protocol.
+   * The client sent a DISCONNECT with the reason_code of the error and reconnects.
+   */
+  type: CustomPacketType.ProtocolError;
+  error: MqttProtocolError;
+  /** The type of the offending packet, if it is known. */
+  packet_type?: ControlPacketType;
+  /** The offending packet including the fixed header, if it is known. */
+  bytes?: Uint8Array;
 };
 
 /**
@@ -0,0 +1,1102 @@
+/**
+ * Copyright 2023-2026 Bernd Amend. MIT license.
+ */
+import { assert, assertEquals, assertRejects } from "@std/assert";
+import { DataReader, delay } from "../helper/mod.ts";
+import * as m from "./mod.ts";
+
+const timeout = { timeout: 5000 as m.Milliseconds };
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+function text(data: DataReader | Uint8Array | undefined): string {
+  return decoder.decode(
+    data instanceof DataReader ? data.asUint8Array() : data,
+  );
+}
+
+/** A local MQTT server for the tests. */
+type Server = Disposable & {
+  /** The address the client connects to. */
+  address: string;
+};
+
+let listeners = 0;
+
+/**
+ * Runs the script for every connection to the returned memory:// address, like a server.
+ * The connection is closed by the server when the script returns.
+ */
+function listen(
+  script: (
+    packets: AsyncIterator<m.AllPacket>,
+    send: (data: Uint8Array) => Promise<void>,
+    connection: number,
+  ) => Promise<void>,
+): Server {
+  const name = `client-test-${++listeners}`;
+  let connections = 0;
+  const listener = m.listenLoopback(name, (peer) => {
+    const writer = peer.writable.getWriter();
+    const packets = peer.readable.pipeThrough(
+      new TransformStream(new m.DeserializeStream()),
+    )[Symbol.asyncIterator]();
+    void script(packets, (data) => writer.write(data), ++connections)
+      .finally(() => writer.close())
+      .catch(() => {});
+  });
+  return {
+    address: `memory://${name}`,
+    [Symbol.dispose]: () => listener.close(),
+  };
+}
+
+/**
+ * Reads the packets of the client until one matches the predicate.
+ * @returns the matching packet
+ */
+async function receive(
+  client: m.Client,
+  predicate: (packet: m.AllPacket | m.CustomPackets) => boolean,
+): Promise<m.AllPacket | m.CustomPackets> {
+  const reader = client.readable.getReader();
+  try {
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) {
+        throw new Error("The client was closed");
+      }
+      if (predicate(value)) {
+        return value;
+      }
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+Deno.test("Client completes the QoS 1 and QoS 2 exchanges of its publishes", async () => {
+  const received: m.AllPacket[] = [];
+  using server = listen(async (packets, send) => {
+    const w = new m.Writer();
+    await packets.next();
+    await send(
+      m.serializeConnAckPacket({ session_present: false }, w),
+    );
+    for (let p = await packets.next(); !p.done; p = await packets.next()) {
+      const packet = p.value;
+      received.push(packet);
+      if (packet.type === m.ControlPacketType.Disconnect) {
+        break;
+      }
+      if (packet.type === m.ControlPacketType.PubRel) {
+        await send(m.serializePubCompPacket({
+          packet_identifier: packet.packet_identifier,
+        }, w));
+      } else if (packet.type === m.ControlPacketType.Publish) {
+        const reason_code = packet.topic === "denied"
+          ? m.PubAckReasonCode.Not_authorized
+          : undefined;
+        await send(
+          packet.qos === m.QoS.At_least_once_delivery
+            ? m.serializePubAckPacket({
+              packet_identifier: packet.packet_identifier!,
+              reason_code,
+            }, w)
+            : m.serializePubRecPacket({
+              packet_identifier: packet.packet_identifier!,
+            }, w),
+        );
+      }
+    }
+  });
+  await using client = new m.Client(server.address, {
+    client_id: m.asClientID("publish-qos"),
+  });
+  await receive(client, (p) => p.type === m.ControlPacketType.ConnAck);
+
+  const pubAck = await client.publish({ topic: m.asTopic("a"), qos: 1 });
+  assertEquals(pubAck?.type, m.ControlPacketType.PubAck);
+  const pubComp = await client.publish({ topic: m.asTopic("b"), qos: 2 });
+  assertEquals(pubComp?.type, m.ControlPacketType.PubComp);
+  const error = await assertRejects(
+    () => client.publish({ topic: m.asTopic("denied"), qos: 1 }),
+    m.PublishError,
+  );
+  assertEquals(error.reason_code, m.PubAckReasonCode.Not_authorized);
+
+  assertEquals(received.map((p) => m.ControlPacketType[p.type]), [
+    "Publish",
+    "Publish",
+    "PubRel",
+    "Publish",
+  ]);
+  const [first, second, pubRel] = received;
+  assert(first?.type === m.ControlPacketType.Publish);
+  assert(second?.type === m.ControlPacketType.Publish);
+  assert(pubRel?.type === m.ControlPacketType.PubRel);
+  assertEquals(first.qos, m.QoS.At_least_once_delivery);
+  assert(first.packet_identifier !== undefined);
+  assertEquals(second.qos, m.QoS.Exactly_once_delivery);
+  assertEquals(pubRel.packet_identifier, second.packet_identifier);
+});
+
+Deno.test("Client acknowledges received publishes manually", async () => {
+  const received: m.AllPacket[] = [];
+  const acknowledged = Promise.withResolvers<void>();
+  using server = listen(async (packets, send) => {
+    const w = new m.Writer();
+    await packets.next();
+    await send(
+      m.serializeConnAckPacket({ session_present: false }, w),
+    );
+    for (const qos of [1, 2] as m.QoS[]) {
+      await send(m.serializePublishPacket({
+        topic: m.asTopic(`qos/${qos}`),
+        qos,
+        packet_identifier: qos as number as m.PacketIdentifier,
+      }, w));
+    }
+    for (let p = await packets.next(); !p.done; p = await packets.next()) {
+      const packet = p.value;
+      received.push(packet);
+      if (packet.type === m.ControlPacketType.PubRec) {
+        await send(m.serializePubRelPacket({
+          packet_identifier: packet.packet_identifier,
+        }, w));
+      } else if (packet.type === m.ControlPacketType.PubComp) {
+        acknowledged.resolve();
+      } else if (packet.type === m.ControlPacketType.Disconnect) {
+        break;
+      }
+    }
+  });
+  await using client = new m.Client(server.address, {
+    client_id: m.asClientID("manual-ack"),
+  }, { manualAcknowledgement: true });
+
+  const publishes: m.PublishPacket[] = [];
+  for (let i = 0; i < 2; ++i) {
+    const publish = await receive(
+      client,
+      (p) => p.type === m.ControlPacketType.Publish,
+    );
+    assert(publish.type === m.ControlPacketType.Publish);
+    publishes.push(publish);
+  }
+  // nothing is acknowledged before acknowledge() is called
+  await delay(10);
+  assertEquals(received, []);
+
+  for (const publish of publishes) {
+    await client.acknowledge(publish);
+  }
+  await acknowledged.promise;
+  assertEquals(received.map((p) => m.ControlPacketType[p.type]), [
+    "PubAck",
+    "PubRec",
+    "PubComp",
+  ]);
+});
+
+Deno.test("Client assigns topic aliases to its publishes", async () => {
+  const publishes: m.PublishPacket[] = [];
+  const received = Promise.withResolvers<void>();
+  let connections = 0;
+  // the DeserializeStream resolves the aliases, the packets are deserialized one by one instead,
+  // the client writes every packet in one chunk
+  using _listener = m.listenLoopback("topic-alias", async (peer) => {
+    const connection = ++connections;
+    const writer = peer.writable.getWriter();
+    for await (const chunk of peer.readable) {
+      const reader = new DataReader(chunk);
+      const packet = m.deserializePacket(m.readFixedHeader(reader)!, reader);
+      if (packet.type === m.ControlPacketType.Disconnect) {
+        break;
+      }
+      if (packet.type === m.ControlPacketType.Connect) {
+        // the second connection allows fewer aliases
+        await writer.write(m.serializeConnAckPacket({
+          session_present: false,
+          properties: { topic_alias_maximum: connection === 1 ? 2 : 1 },
+        }, new m.Writer()));
+      } else if (packet.type === m.ControlPacketType.Publish) {
+        publishes.push(packet);
+        if (publishes.length === 4) {
+          received.resolve();
+        }
+        // the first connection is dropped after two publishes
+        if (connection === 1 && publishes.length === 2) {
+          break;
+        }
+      }
+    }
+    await writer.close();
+  });
+  await using client = new m.Client("memory://topic-alias", {
+    client_id: m.asClientID("topic-alias"),
+  }, { reconnectTime: 10 as m.Milliseconds });
+  await client.waitForConnected(timeout);
+  await client.publish({ topic: m.asTopic("alias/a") });
+  await client.publish({ topic: m.asTopic("alias/a") });
+
+  let connAcks = 0;
+  await receive(
+    client,
+    (p) => p.type === m.ControlPacketType.ConnAck && ++connAcks === 2,
+  );
+  await client.publish({ topic: m.asTopic("alias/a") });
+  await client.publish({ topic: m.asTopic("alias/b") });
+  await received.promise;
+
+  assertEquals(
+    publishes.map((p) => ({
+      topic: p.topic as string,
+      alias: p.properties?.topic_alias,
+    })),
+    [
+      // the topic is only sent together with a new alias
+      { topic: "alias/a", alias: 1 },
+      { topic: "", alias: 1 },
+      // the aliases are reset for the new connection and limited by its topic_alias_maximum
+      { topic: "alias/a", alias: 1 },
+      { topic: "alias/b", alias: 1 },
+    ],
+  );
+});
+
+Deno.test("Client keeps at most receive_maximum publishes in flight", async () => {
+  let inflight = 0;
+  let maximumInflight = 0;
+  using server = listen(async (packets, send) => {
+    const w = new m.Writer();
+    await packets.next();
+    await send(m.serializeConnAckPacket({
+      session_present: false,
+      properties: { receive_maximum: 2 },
+    }, w));
+    for (let p = await packets.next(); !p.done; p = await packets.next()) {
+      const packet = p.value;
+      if (packet.type === m.ControlPacketType.Disconnect) {
+        break;
+      }
+      if (packet.type !== m.ControlPacketType.Publish) {
+        continue;
+      }
+      maximumInflight = Math.max(maximumInflight, ++inflight);
+      // acknowledge later, so the client could send further publishes in the meantime
+      setTimeout(() => {
+        --inflight;
+        send(m.serializePubAckPacket({
+          packet_identifier: packet.packet_identifier!,
+        }, w)).catch(() => {});
+      }, 5);
+    }
+  });
+  await using client = new m.Client(server.address, {
+    client_id: m.asClientID("receive-maximum"),
+  });
+  await receive(client, (p) => p.type === m.ControlPacketType.ConnAck);
+
+  const replies = await Promise.all(
+    Array.from(
+      { length: 6 },
+      (_, i) => client.publish({ topic: m.asTopic(`${i}`), qos: 1 }),
+    ),
+  );
+  assertEquals(replies.length, 6);
+  assertEquals(maximumInflight, 2);
+});
+
+Deno.test("Client replays the subscriptions if the session wasn't resumed", async () => {
+  const subscribes: m.SubscribePacket[] = [];
+  using server = listen(async (packets, send, connection) => {
+    const w = new m.Writer();
+    await packets.next();
+    // the server never keeps the session
+    await send(
+      m.serializeConnAckPacket({ session_present: false }, w),
+    );
+    for (let p = await packets.next(); !p.done; p = await packets.next()) {
+      const packet = p.value;
+      if (packet.type === m.ControlPacketType.Disconnect) {
+        break;
+      }
+      if (packet.type === m.ControlPacketType.Unsubscribe) {
+        await send(m.serializeUnsubAckPacket({
+          packet_identifier: packet.packet_identifier,
+          reason_codes: [m.UnsubAckReasonCode.Success],
+        }, w));
+        continue;
+      }
+      if (packet.type !== m.ControlPacketType.Subscribe) {
+        continue;
+      }
+      subscribes.push(packet);
+      await send(m.serializeSubAckPacket({
+        packet_identifier: packet.packet_identifier,
+        reason_codes: [m.SubAckReasonCode.Granted_QoS_1],
+      }, w));
+      // the first connection is dropped after the SUBACK
+      if (connection === 1) {
+        break;
+      }
+      await send(m.serializePublishPacket({
+        topic: m.asTopic("replay/1"),
+        payload: "again",
+      }, w));
+    }
+  });
+  await using client = new m.Client(server.address, {
+    client_id: m.asClientID("resubscribe"),
+  }, {
+    publishDeserializeOptions: m.PublishDeserializeOptions.UTF8String,
+    reconnectTime: 10 as m.Milliseconds,
+  });
+  await receive(client, (p) => p.type === m.ControlPacketType.ConnAck);
+  await using subscription = await client.subscribeStream({
+    subscriptions: [{ topic: m.asTopicFilter("replay/+"), qos: 1 }],
+  });
+
+  const resubscribed = await receive(
+    client,
+    (p) => p.type === m.CustomPacketType.Resubscribed,
+  );
+  assert(resubscribed.type === m.CustomPacketType.Resubscribed);
+  assertEquals(resubscribed.subscriptions, [{
+    topic: m.asTopicFilter("replay/+"),
+    qos: 1,
+  }]);
+  assertEquals(resubscribed.subAck.reason_codes, [
+    m.SubAckReasonCode.Granted_QoS_1,
+  ]);
+  assertEquals(subscribes.length, 2);
+  assertEquals(subscribes[1]?.subscriptions, subscribes[0]?.subscriptions);
+
+  for await (const packet of subscription) {
+    assertEquals(packet.payload, "again");
+    break;
+  }
+});
+
+Deno.test("Client.request", async (t) => {
+  using server = listen(async (packets, send) => {
+    const w = new m.Writer();
+    await packets.next();
+    await send(
+      m.serializeConnAckPacket({ session_present: false }, w),
+    );
+    for (let p = await packets.next(); !p.done; p = await packets.next()) {
+      const packet = p.value;
+      if (packet.type === m.ControlPacketType.Disconnect) {
+        break;
+      }
+      if (packet.type === m.ControlPacketType.Subscribe) {
+        await send(m.serializeSubAckPacket({
+          packet_identifier: packet.packet_identifier,
+          reason_codes: [m.SubAckReasonCode.Granted_QoS_0],
+        }, w));
+      }
+      // only requests to echo are answered
+      if (
+        packet.type === m.ControlPacketType.Publish &&
+        packet.topic === "echo" && packet.properties?.response_topic
+      ) {
+        await send(m.serializePublishPacket({
+          topic: packet.properties.response_topic,
+          payload: `${packet.payload}!`,
+          properties: {
+            correlation_data: packet.properties.correlation_data,
+          },
+        }, w));
+      }
+    }
+  });
+  await using requester = new m.Client(server.address, {
+    client_id: m.asClientID("requester"),
+  }, {
+    publishDeserializeOptions: m.PublishDeserializeOptions.UTF8String,
+  });
+  await receive(requester, (p) => p.type === m.ControlPacketType.ConnAck);
+
+  await t.step("receives the response", async () => {
+    const response = await requester.request(m.asTopic("echo"), "hello", {
+      timeout: 1000 as m.Milliseconds,
+    });
+    assertEquals(response.payload, "hello!");
+  });
+
+  await t.step("rejects if the timeout expires", async () => {
+    const error = await assertRejects(() =>
+      requester.request(m.asTopic("nobody"), "hello", {
+        timeout: 50 as m.Milliseconds,
+      })
+    );
+    assertEquals((error as DOMException).name, "TimeoutError");
+  });
+
+  await t.step("rejects if the signal is aborted", async () => {
+    const controller = new AbortController();
+    const response = requester.request(m.asTopic("nobody"), "hello", {
+      signal: controller.signal,
+    });
+    controller.abort();
+    const error = await assertRejects(() => response);
+    assertEquals((error as DOMException).name, "AbortError");
+  });
+
+  await t.step("rejects if the client is closed", async () => {
+    const response = requester.request(m.asTopic("nobody"), "hello");
+    await requester.close();
+    await assertRejects(() => response, m.NotConnectedError, "client closed");
+  });
+});
+
+Deno.test("Client.request times out while the client is disconnected", async () => {
+  // nothing listens on the name of a closed listener
+  const closed = listen(() => Promise.resolve());
+  closed[Symbol.dispose]();
+  await using client = new m.Client(closed.address, {}, {
+    reconnectTime: 10 as m.Milliseconds,
+  });
+  const error = await assertRejects(() =>
+    client.request(m.asTopic("echo"), "hello", {
+      timeout: 50 as m.Milliseconds,
+    })
+  );
+  assertEquals((error as DOMException).name, "TimeoutError");
+});
+
+Deno.test("Client doesn't report invalid own packets as protocol errors", async () => {
+  const received: m.AllPacket[] = [];
+  using server = listen(async (packets) => {
+    for (let p = await packets.next(); !p.done; p = await packets.next()) {
+      received.push(p.value);
+    }
+  });
+  // MQTT 3.1.1 only allows a password together with a username
+  await using client = new m.Client(server.address, {
+    protocol_version: m.ProtocolVersion.MQTT_3_1_1,
+    password: "secret",
+  }, { reconnectTime: 0 as m.Milliseconds });
+  const events: (m.AllPacket | m.CustomPackets)[] = [];
+  await receive(client, (packet) => {
+    events.push(packet);
+    return packet.type === m.CustomPacketType.FailedConnectionAttempt &&
+      typeof packet.msg === "string";
+  });
+  const [failure] = events;
+  assert(failure?.type === m.CustomPacketType.FailedConnectionAttempt);
+  assert(failure.msg instanceof m.InvalidPacketError);
+  assert(
+    !events.some((p) => p.type === m.CustomPacketType.ProtocolError),
+  );
+  // neither the CONNECT nor a DISCONNECT was sent
+  assertEquals(received, []);
+});
+
+Deno.test("Client sends the offline queue before newer publishes", async () => {
+  const topics: string[] = [];
+  const accept = Promise.withResolvers<void>();
+  const secondReceived = Promise.withResolvers<void>();
+  const acknowledgeSecond = Promise.withResolvers<void>();
+  using server = listen(async (packets, send) => {
+    const w = new m.Writer();
+    await packets.next();
+    await accept.promise;
+    // only one message is in flight, the third waits for the acknowledgement of the second
+    await send(m.serializeConnAckPacket({
+      session_present: false,
+      properties: { receive_maximum: 1 },
+    }, w));
+    for (let p = await packets.next(); !p.done; p = await packets.next()) {
+      const packet = p.value;
+      if (packet.type === m.ControlPacketType.Disconnect) {
+        break;
+      }
+      if (packet.type !== m.ControlPacketType.Publish) {
+        continue;
+      }
+      topics.push(packet.topic);
+      if (packet.topic === "order/2") {
+        secondReceived.resolve();
+        await acknowledgeSecond.promise;
+      }
+      if (packet.packet_identifier !== undefined) {
+        await send(m.serializePubAckPacket({
+          packet_identifier: packet.packet_identifier,
+        }, w));
+      }
+    }
+  });
+  await using client = new m.Client(server.address, {
+    client_id: m.asClientID("offline-order"),
+  }, {
+    reconnectTime: 10 as m.Milliseconds,
+    offlineQueue: {},
+  });
+  // the client is offline until the server accepts the connection
+  const queued = ["1", "2", "3"].map((n) =>
+    client.publish({ topic: m.asTopic(`order/${n}`), qos: 1 })
+  );
+  accept.resolve();
+
+  await secondReceived.promise;
+  // the third message was taken from the queue, but isn't written yet
+  await delay(10);
+  const direct = client.publish({ topic: m.asTopic("order/4") });
+  acknowledgeSecond.resolve();
+  await Promise.all([...queued, direct]);
+  assertEquals(topics, ["order/1", "order/2", "order/3", "order/4"]);
+});
+
+Deno.test("Client.serve", async (t) => {
+  const subscriptions: string[] = [];
+  const responses = new Map<string, PromiseWithResolvers<m.PublishPacket>>();
+  const response = (topic: string) => {
+    let response = responses.get(topic);
+    if (response === undefined) {
+      response = Promise.withResolvers();
+      responses.set(topic, response);
+    }
+    return response;
+  };
+  using server = listen(async (packets, send) => {
+    const w = new m.Writer();
+    await packets.next();
+    await send(
+      m.serializeConnAckPacket({ session_present: false }, w),
+    );
+    for (let p = await packets.next(); !p.done; p = await packets.next()) {
+      const packet = p.value;
+      if (packet.type === m.ControlPacketType.Disconnect) {
+        break;
+      }
+      if (packet.type === m.ControlPacketType.Unsubscribe) {
+        await send(m.serializeUnsubAckPacket({
+          packet_identifier: packet.packet_identifier,
+          reason_codes: [m.UnsubAckReasonCode.Success],
+        }, w));
+      } else if (packet.type === m.ControlPacketType.Publish) {
+        response(packet.topic).resolve(packet);
+      } else if (packet.type === m.ControlPacketType.Subscribe) {
+        const filter = packet.subscriptions[0]!.topic;
+        subscriptions.push(filter);
+        await send(m.serializeSubAckPacket({
+          packet_identifier: packet.packet_identifier,
+          reason_codes: [m.SubAckReasonCode.Granted_QoS_0],
+        }, w));
+        // every new subscription receives one request
+        const topic = filter.replace(/^\$share\/[^/]+\//, "");
+        await send(m.serializePublishPacket({
+          topic: m.asTopic(topic),
+          payload: "21",
+          properties: {
+            response_topic: m.asTopic(`responses/${topic}`),
+            correlation_data: encoder.encode(topic),
+          },
+        }, w));
+      }
+    }
+  });
+  await using client = new m.Client(server.address, {
+    client_id: m.asClientID("serve"),
+  }, {
+    publishDeserializeOptions: m.PublishDeserializeOptions.UTF8String,
+  });
+  await receive(client, (p) => p.type === m.ControlPacketType.ConnAck);
+
+  await t.step("answers requests", async () => {
+    await using _serve = await client.serve(
+      m.asTopicFilter("double"),
+      (request) => `${Number(request.payload) * 2}`,
+    );
+    const answer = await response("responses/double").promise;
+    assertEquals(answer.payload, "42");
+    assertEquals(text(answer.properties?.correlation_data), "double");
+  });
+
+  await t.step("answers with the error of the handler", async () => {
+    await using _serve = await client.serve(m.asTopicFilter("fail"), () => {
+      throw new Error("broken");
+    });
+    const answer = await response("responses/fail").promise;
+    assertEquals(answer.properties?.user_properties, [{
+      key: m.ServeErrorUserPropertyKey,
+      value: "broken",
+    }]);
+  });
+
+  await t.step("subscribes to a shared subscription of the group", async () => {
+    await using serve = await client.serve(
+      m.asTopicFilter("shared"),
+      () => "shared",
+      { group: "workers" },
+    );
+    assertEquals(serve.topicFilters, [
+      m.asTopicFilter("$share/workers/shared"),
+    ]);
+    const answer = await response("responses/shared").promise;
+    assertEquals(answer.payload, "shared");
+  });
+
+  assertEquals(subscriptions, ["double", "fail", "$share/workers/shared"]);
+});
+
+Deno.test("Client retransmits a publish whose write failed when the session is resumed", async () => {
+  const publishes: m.PublishPacket[] = [];
+  const dropConnection = Promise.withResolvers<void>();
+  using server = listen(async (packets, send, connection) => {
+    const w = new m.Writer();
+    await packets.next();
+    await send(m.serializeConnAckPacket({
+      session_present: connection > 1,
+    }, w));
+    if (connection === 1) {
+      // the client can't write to the first connection anymore
+      await packets.return?.();
+      await dropConnection.promise;
+      return;
+    }
+    for (let p = await packets.next(); !p.done; p = await packets.next()) {
+      const packet = p.value;
+      if (packet.type === m.ControlPacketType.Disconnect) {
+        break;
+      }
+      if (packet.type === m.ControlPacketType.Publish) {
+        publishes.push(packet);
+        await send(m.serializePubAckPacket({
+          packet_identifier: packet.packet_identifier!,
+        }, w));
+      }
+    }
+  });
+  await using client = new m.Client(server.address, {
+    client_id: m.asClientID("resume"),
+    clean_start: false,
+    properties: { session_expiry_interval: 60 as m.Seconds },
+  }, { reconnectTime: 10 as m.Milliseconds });
+  await client.waitForConnected(timeout);
+
+  const reply = client.publish({ topic: m.asTopic("kept"), qos: 1 });
+  await delay(10);
+  dropConnection.resolve();
+  assertEquals((await reply)?.type, m.ControlPacketType.PubAck);
+  assertEquals(publishes.length, 1);
+  assertEquals(publishes[0]?.topic, m.asTopic("kept"));
+  assertEquals(publishes[0]?.dup, true);
+});
+
+Deno.test("Client moves on through the addresses after failed attempts", async () => {
+  const attempts: string[] = [];
+  // nothing listens on the name of a closed listener
+  const closed = listen(() => Promise.resolve());
+  closed[Symbol.dispose]();
+  using unavailable = listen(async (packets, send) => {
+    await packets.next();
+    attempts.push("unavailable");
+    await send(m.serializeConnAckPacket({
+      session_present: false,
+      connect_reason_code: m.ConnectReasonCode.Server_unavailable,
+    }, new m.Writer()));
+  });
+  using available = listen(async (packets, send) => {
+    await packets.next();
+    attempts.push("available");
+    await send(
+      m.serializeConnAckPacket({ session_present: false }, new m.Writer()),
+    );
+    for (let p = await packets.next(); !p.done; p = await packets.next()) {
+      if (p.value.type === m.ControlPacketType.Disconnect) {
+        break;
+      }
+    }
+  });
+  await using client = new m.Client([
+    closed.address,
+    unavailable.address,
+    available.address,
+  ], {
+    client_id: m.asClientID("failover"),
+  }, {
+    // the default strategy gives up if the server rejected the connection
+    reconnectStrategy: m.exponentialBackoff({ minimum: 10 as m.Milliseconds }),
+  });
+  const failures: (m.AllPacket | m.CustomPackets)[] = [];
+  await receive(client, (p) => {
+    if (p.type === m.CustomPacketType.FailedConnectionAttempt) {
+      failures.push(p);
+      assert(failures.length <= 2, "The client retries a failed address");
+    }
+    return p.type === m.ControlPacketType.ConnAck &&
+      p.connect_reason_code === m.ConnectReasonCode.Success;
+  });
+  assertEquals(failures.length, 2);
+  assertEquals(attempts, ["unavailable", "available"]);
+});
+
+Deno.test("Client follows server redirections", async () => {
+  const connects: string[] = [];
+  const disconnected = Promise.withResolvers<void>();
+  using moved = listen(async (packets, send) => {
+    await packets.next();
+    connects.push("moved");
+    await send(
+      m.serializeConnAckPacket({ session_present: false }, new m.Writer()),
+    );
+    for (let p = await packets.next(); !p.done; p = await packets.next()) {
+      if (p.value.type === m.ControlPacketType.Disconnect) {
+        break;
+      }
+    }
+    disconnected.resolve();
+  });
+  using other = listen(async (packets, send) => {
+    await packets.next();
+    connects.push("other");
+    await send(
+      m.serializeConnAckPacket({ session_present: false }, new m.Writer()),
+    );
+    // the server moves while the client is connected
+    await send(m.serializeDisconnectPacket({
+      reason_code: m.DisconnectReasonCode.Server_moved,
+      properties: { server_reference: moved.address },
+    }, new m.Writer()));
+  });
+  using redirect = listen(async (packets, send) => {
+    await packets.next();
+    connects.push("redirect");
+    await send(m.serializeConnAckPacket({
+      session_present: false,
+      connect_reason_code: m.ConnectReasonCode.Use_another_server,
+      properties: { server_reference: other.address },
+    }, new m.Writer()));
+  });
+  const client = new m.Client(redirect.address, {
+    client_id: m.asClientID("redirect"),
+  }, { reconnectTime: 10 as m.Milliseconds });
+  let connAcks = 0;
+  await receive(
+    client,
+    (p) =>
+      p.type === m.ControlPacketType.ConnAck &&
+      p.connect_reason_code === m.ConnectReasonCode.Success &&
+      ++connAcks === 2,
+  );
+  await client.close();
+  await disconnected.promise;
+  assertEquals(connects, ["redirect", "other", "moved"]);
+});
+
+Deno.test("Client stops following servers that redirect to each other", async () => {
+  const connects: string[] = [];
+  const redirect = (name: string, other: () => string) =>
+    listen(async (packets, send) => {
+      await packets.next();
+      connects.push(name);
+      await send(m.serializeConnAckPacket({
+        session_present: false,
+        connect_reason_code: m.ConnectReasonCode.Use_another_server,
+        properties: { server_reference: other() },
+      }, new m.Writer()));
+    });
+  using a = redirect("a", () => b.address);
+  using b = redirect("b", () => a.address);
+
+  const start = Date.now();
+  await using client = new m.Client(a.address, {}, {
+    reconnectTime: 20 as m.Milliseconds,
+    maximumRedirects: 3,
+  });
+  await assertRejects(
+    () => client.waitForConnected(timeout),
+    m.NotConnectedError,
+  );
+  // the redirections are delayed by the reconnect strategy and limited to maximumRedirects
+  assertEquals(connects, ["a", "b", "a", "b"]);
+  assert(Date.now() - start >= 3 * 20);
+  assertEquals(client.state, "closed");
+});
+
+Deno.test("Client answers the authentication challenges of the server", async () => {
+  const received: string[] = [];
+  using server = listen(async (packets, send) => {
+    const w = new m.Writer();
+    const auth = (
+      reason_code: m.AuthReasonCode,
+      authentication_data: string,
+    ) =>
+      send(m.serializeAuthPacket({
+        reason_code,
+        properties: {
+          authentication_method: "test",
+          authentication_data: encoder.encode(authentication_data),
+        },
+      }, w));
+    for (let p = await packets.next(); !p.done; p = await packets.next()) {
+      const packet = p.value;
+      if (packet.type === m.ControlPacketType.Disconnect) {
+        break;
+      }
+      if (packet.type === m.ControlPacketType.Connect) {
+        received.push(
+          `connect ${text(packet.properties?.authentication_data)}`,
+        );
+        await auth(m.AuthReasonCode.Continue_authentication, "challenge");
+        continue;
+      }
+      if (packet.type !== m.ControlPacketType.Auth) {
+        continue;
+      }
+      const data = text(packet.properties?.authentication_data);
+      received.push(`${m.AuthReasonCode[packet.reason_code!]} ${data}`);
+      if (packet.reason_code === m.AuthReasonCode.Re_authenticate) {
+        await auth(m.AuthReasonCode.Continue_authentication, "challenge 2");
+      } else if (data === "answer challenge") {
+        await send(m.serializeConnAckPacket({
+          session_present: false,
+          properties: {
+            authentication_method: "test",
+            authentication_data: encoder.encode("accepted"),
+          },
+        }, w));
+      } else {
+        await auth(m.AuthReasonCode.Success, "accepted again");
+      }
+    }
+  });
+
+  const calls: string[] = [];
+  await using client = new m.Client(server.address, {
+    client_id: m.asClientID("auth"),
+  }, {
+    authenticationProvider: {
+      method: "test",
+      start: () => {
+        calls.push("start");
+        return Promise.resolve(encoder.encode("start"));
+      },
+      continue: (data) => {
+        calls.push(`continue ${text(data)}`);
+        return Promise.resolve(encoder.encode(`answer ${text(data)}`));
+      },
+      complete: (data) => {
+        calls.push(`complete ${text(data)}`);
+        return Promise.resolve();
+      },
+    },
+  });
+  await receive(client, (p) => p.type === m.ControlPacketType.ConnAck);
+  const auth = await client.reauthenticate();
+  assertEquals(auth.reason_code, m.AuthReasonCode.Success);
+
+  assertEquals(calls, [
+    "start",
+    "continue challenge",
+    "complete accepted",
+    "start",
+    "continue challenge 2",
+    "complete accepted again",
+  ]);
+  assertEquals(received, [
+    "connect start",
+    "Continue_authentication answer challenge",
+    "Re_authenticate start",
+    "Continue_authentication answer challenge 2",
+  ]);
+});
+
+Deno.test("Client disconnects with Not_authorized if the authentication provider fails", async () => {
+  const received: m.AllPacket[] = [];
+  const closed = Promise.withResolvers<void>();
+  using server = listen(async (packets, send) => {
+    await packets.next();
+    await send(m.serializeConnAckPacket({
+      session_present: false,
+      properties: { authentication_method: "test" },
+    }, new m.Writer()));
+    for (let p = await packets.next(); !p.done; p = await packets.next()) {
+      received.push(p.value);
+    }
+    closed.resolve();
+  });
+  await using client = new m.Client(server.address, {
+    client_id: m.asClientID("auth-failure"),
+  }, {
+    reconnectTime: 0 as m.Milliseconds,
+    authenticationProvider: {
+      method: "test",
+      start: () => Promise.resolve(undefined),
+      continue: () => Promise.resolve(undefined),
+      complete: () => Promise.reject(new Error("unknown server")),
+    },
+  });
+  const failure = await receive(
+    client,
+    (p) => p.type === m.CustomPacketType.FailedConnectionAttempt,
+  );
+  assert(failure.type === m.CustomPacketType.FailedConnectionAttempt);
+  assert(failure.msg instanceof m.AuthenticationError);
+  assertEquals(
+    failure.msg.message,
+    "The authentication provider failed: unknown server",
+  );
+  await assertRejects(
+    () => client.waitForConnected(timeout),
+    m.NotConnectedError,
+  );
+  await closed.promise;
+  assertEquals(received.length, 1);
+  const [disconnect] = received;
+  assert(disconnect?.type === m.ControlPacketType.Disconnect);
+  assertEquals(disconnect.reason_code, m.DisconnectReasonCode.Not_authorized);
+});
+
+Deno.test("Client dispatches the states of its connection", async () => {
+  using server = listen(async (packets, send) => {
+    await packets.next();
+    await send(
+      m.serializeConnAckPacket({ session_present: false }, new m.Writer()),
+    );
+    for (let p = await packets.next(); !p.done; p = await packets.next()) {
+      if (p.value.type === m.ControlPacketType.Disconnect) {
+        break;
+      }
+    }
+  });
+
+  const states: m.ConnectionState[] = [];
+  const client = new m.Client(server.address, {
+    client_id: m.asClientID("states"),
+  });
+  assertEquals(client.state, "connecting");
+  client.addEventListener("statechange", (event) => states.push(event.state));
+  const connAck = await client.waitForConnected(timeout);
+  assertEquals(connAck.session_present, false);
+  assertEquals(client.state, "connected");
+  // resolves immediately while connected
+  assertEquals(await client.waitForConnected(), connAck);
+
+  await client.close();
+  assertEquals(states, ["connected", "closing", "closed"]);
+  await assertRejects(
+    () => client.waitForConnected(),
+    m.NotConnectedError,
+    "client closed",
+  );
+});
+
+Deno.test("Client dispatches the states of every connection attempt", async () => {
+  using server = listen(async (packets, send, connection) => {
+    await packets.next();
+    await send(
+      m.serializeConnAckPacket({ session_present: false }, new m.Writer()),
+    );
+    // the first connection is dropped after the CONNACK
+    if (connection === 1) {
+      return;
+    }
+    for (let p = await packets.next(); !p.done; p = await packets.next()) {
+      if (p.value.type === m.ControlPacketType.Disconnect) {
+        break;
+      }
+    }
+  });
+
+  const states: m.ConnectionState[] = [];
+  const client = new m.Client(server.address, {
+    client_id: m.asClientID("reconnect-states"),
+  }, {
+    reconnectTime: 10 as m.Milliseconds,
+  });
+  client.addEventListener("statechange", (event) => states.push(event.state));
+  let connAcks = 0;
+  await receive(
+    client,
+    (p) => p.type === m.ControlPacketType.ConnAck && ++connAcks === 2,
+  );
+  await client.close();
+  assertEquals(states, [
+    "connected",
+    "reconnecting",
+    "connecting",
+    "connected",
+    "closing",
+    "closed",
+  ]);
+});
+
+Deno.test("Client talks MQTT 3.1.1 if the connect packet asks for it", async () => {
+  const connects: (m.ProtocolVersion | undefined)[] = [];
+  const subscribed = Promise.withResolvers<m.SubscribePacket>();
+  using server = listen(async (packets, send, connection) => {
+    const connect = (await packets.next()).value as m.ConnectPacket;
+    connects.push(connect.protocol_version);
+    if (connection === 1) {
+      // 3.1.1 3.2.2.3 the return code 3 is Server_unavailable
+      await send(new Uint8Array([0x20, 2, 0, 3]));
+      return;
+    }
+    await send(new Uint8Array([0x20, 2, 0, 0]));
+    const w = new m.Writer();
+    w.protocolVersion = m.ProtocolVersion.MQTT_3_1_1;
+    for (let p = await packets.next(); !p.done; p = await packets.next()) {
+      if (p.value.type === m.ControlPacketType.Subscribe) {
+        subscribed.resolve(p.value);
+        await send(m.serializeSubAckPacket({
+          packet_identifier: p.value.packet_identifier,
+          reason_codes: [m.SubAckReasonCode.Granted_QoS_0],
+        }, w));
+      } else if (p.value.type === m.ControlPacketType.Disconnect) {
+        break;
+      }
+    }
+  });
+  await using client = new m.Client(server.address, {
+    client_id: m.asClientID("mqtt-3-1-1"),
+    protocol_version: m.ProtocolVersion.MQTT_3_1_1,
+  }, {
+    // the default strategy gives up if the server rejected the connection
+    reconnectStrategy: m.exponentialBackoff({ minimum: 10 as m.Milliseconds }),
+  });
+  const failures: unknown[] = [];
+  const connAck = await receive(client, (p) => {
+    if (p.type === m.CustomPacketType.FailedConnectionAttempt) {
+      failures.push(p.msg);
+    }
+    return p.type === m.ControlPacketType.ConnAck &&
+      p.connect_reason_code === m.ConnectReasonCode.Success;
+  }) as m.ConnAckPacket;
+  assertEquals(connects, [
+    m.ProtocolVersion.MQTT_3_1_1,
+    m.ProtocolVersion.MQTT_3_1_1,
+  ]);
+  assertEquals(failures.length, 1);
+  assert(failures[0] instanceof m.ConnectRejectedError);
+  assertEquals(
+    failures[0].packet.connect_reason_code,
+    m.ConnectReasonCode.Server_unavailable,
+  );
+  assertEquals(connAck.properties, undefined);
+
+  // MQTT 3.1.1 has no subscription identifiers
+  await assertRejects(
+    () =>
+      client.subscribe({
+        subscriptions: [{ topic: m.asTopicFilter("v3/#") }],
+        properties: { subscription_identifier: 7 },
+      }),
+    m.CapabilityError,
+  );
+  await client.subscribe({
+    subscriptions: [{ topic: m.asTopicFilter("v3/#") }],
+  });
+  const subscribe = await subscribed.promise;
+  assertEquals(subscribe.subscriptions.map((s) => s.topic), ["v3/#"]);
+  assertEquals(subscribe.properties, undefined);
+  await assertRejects(
+    () => client.request(m.asTopic("v3/request"), "hello", timeout),
+    m.MqttError,
+    "requires MQTT 5",
+  );
+});
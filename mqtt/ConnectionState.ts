@@ -0,0 +1,47 @@
+/**
+ * Connection states of the MQTT client.
+ *
+ * @module
+ * @license MIT
+ * @copyright 2023-2026 Bernd Amend
+ */
+
+/**
+ * The state of the connection of a Client.
+ *  - connecting: a connection attempt is running, the first one after open() or a reconnect attempt
+ *  - authenticating: the enhanced authentication exchange of a connection attempt is running
+ *  - connected: the server accepted the connection
+ *  - reconnecting: a connection attempt failed or the connection was lost, the client waits for the next attempt
+ *  - closing: close() was called
+ *  - closed: the client was closed or the reconnect strategy gave up
+ */
+export type ConnectionState =
+  | "connecting"
+  | "authenticating"
+  | "connected"
+  | "reconnecting"
+  | "closing"
+  | "closed";
+
+/**
+ * Dispatched by the Client as "statechange" event whenever the ConnectionState changes.
+ * @example
+ * ```ts
+ * client.addEventListener("statechange", (event) => {
+ *   console.log(`${event.previous} -> ${event.state}`);
+ * });
+ * ```
+ */
+export class ConnectionStateChangeEvent extends Event {
+  /**
+   * Creates a new ConnectionStateChangeEvent.
+   * @param state - The new state
+   * @param previous - The state before the change
+   */
+  constructor(
+    readonly state: ConnectionState,
+    readonly previous: ConnectionState,
+  ) {
+    super("statechange");
+  }
+}
@@ -2,16 +2,25 @@
  * Copyright 2023-2026 Bernd Amend. MIT license.
  */
 import { DataReader } from "../helper/mod.ts";
-import type { AllPacket } from "./packets.ts";
+import {
+  type AllPacket,
+  ControlPacketType,
+  DisconnectReasonCode,
+  ProtocolVersion,
+  type Topic,
+} from "./packets.ts";
 import {
   deserializePacket,
   type PublishDeserializeOptions,
   readFixedHeader,
 } from "./deserialize.ts";
+import { MalformedPacketError, MqttProtocolError } from "./errors.ts";
 
 /**
  * A TransformStream that deserializes MQTT packets from a byte stream.
  * Handles partial packets and reassembly across chunk boundaries.
+ * Topic aliases of received PUBLISH packets are resolved, the topic is always set.
+ * The protocol_version of a received CONNECT packet is used for the following packets.
  * @see https://docs.oasis-open.org/mqtt/mqtt/v5.0/os/mqtt-v5.0-os.html#_Toc3901285
  */
 export class DeserializeStream implements Transformer<Uint8Array, AllPacket> {
@@ -19,12 +28,17 @@ export class DeserializeStream implements Transformer<Uint8Array, AllPacket> {
    * Creates a new DeserializeStream.
    * @param options - Optional configuration
    * @param options.publishDeserializeOptions - How to deserialize PUBLISH payloads
+   * @param options.topicAliasMaximum - The highest topic alias the sender is allowed to use, defaults to 0
+   * @param options.protocolVersion - The protocol version of the received packets, defaults to MQTT 5
    */
   constructor(
     readonly options?: {
       publishDeserializeOptions?: PublishDeserializeOptions;
+      topicAliasMaximum?: number;
+      protocolVersion?: ProtocolVersion;
     },
   ) {
+    this.#protocolVersion = options?.protocolVersion ?? ProtocolVersion.MQTT_5;
   }
 
   /**
@@ -50,7 +64,20 @@ export class DeserializeStream implements Transformer<Uint8Array, AllPacket> {
     const reader = new DataReader(chunk);
     while (reader.hasMoreData) {
       const pos = reader.pos;
-      const fixedHeader = readFixedHeader(reader);
+      let fixedHeader: ReturnType<typeof readFixedHeader>;
+      try {
+        fixedHeader = readFixedHeader(reader);
+      } catch (e) {
+        // 2.1.4 the remaining length is an invalid variable byte integer
+        controller.error(
+          new MalformedPacketError(
+            `Invalid fixed header ${e}`,
+            chunk[pos]! >> 4,
+            { cause: e, bytes: chunk.slice(pos) },
+          ),
+        );
+        return;
+      }
       if (
         fixedHeader === undefined || reader.remainingSize < fixedHeader.length
       ) {
@@ -64,20 +91,77 @@ export class DeserializeStream implements Transformer<Uint8Array, AllPacket> {
         }
         return;
       }
+      const end = reader.pos + fixedHeader.length;
+      let packet: AllPacket;
       try {
-        controller.enqueue(
-          deserializePacket(
-            fixedHeader,
-            reader,
-            this.options?.publishDeserializeOptions,
-          ),
+        packet = deserializePacket(
+          fixedHeader,
+          reader,
+          this.options?.publishDeserializeOptions,
+          this.#protocolVersion,
         );
+        if (packet.type === ControlPacketType.Connect) {
+          this.#protocolVersion = packet.protocol_version ??
+            ProtocolVersion.MQTT_5;
+        } else if (packet.type === ControlPacketType.Publish) {
+          const alias = packet.properties?.topic_alias;
+          if (alias !== undefined) {
+            packet.topic = this.#resolveTopicAlias(alias, packet.topic);
+          }
+        }
       } catch (e) {
-        controller.error(`Error while deserializing ${e}`);
+        // The stream can't be continued after an invalid packet, 4.13 the connection has to be closed
+        const options = {
+          cause: e,
+          packet_type: fixedHeader.type,
+          bytes: chunk.slice(pos, end),
+        };
+        controller.error(
+          e instanceof MqttProtocolError &&
+            !(e instanceof MalformedPacketError)
+            ? new MqttProtocolError(e.message, e.reason_code, options)
+            : new MalformedPacketError(
+              e instanceof MalformedPacketError
+                ? e.message
+                : `Error while deserializing ${e}`,
+              fixedHeader.type,
+              options,
+            ),
+        );
+        return;
       }
+      controller.enqueue(packet);
       firstMessage = false;
     }
   }
 
+  /**
+   * 3.3.2.3.4 Stores the topic for the alias or returns the stored topic if the topic is empty.
+   * @throws {MqttProtocolError} if the alias is out of range or unknown
+   */
+  #resolveTopicAlias(alias: number, topic: Topic): Topic {
+    const maximum = this.options?.topicAliasMaximum ?? 0;
+    if (alias === 0 || alias > maximum) {
+      throw new MqttProtocolError(
+        `Received the topic alias ${alias}, the topic_alias_maximum is ${maximum}`,
+        DisconnectReasonCode.Topic_Alias_invalid,
+      );
+    }
+    if (topic !== "") {
+      this.#topicAliases.set(alias, topic);
+      return topic;
+    }
+    const known = this.#topicAliases.get(alias);
+    if (known === undefined) {
+      throw new MqttProtocolError(
+        `Received the unknown topic alias ${alias}`,
+        DisconnectReasonCode.Topic_Alias_invalid,
+      );
+    }
+    return known;
+  }
+
   #partialChunk: Uint8Array | undefined;
+  #protocolVersion: ProtocolVersion;
+  #topicAliases = new Map<number, Topic>();
 }
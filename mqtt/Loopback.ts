@@ -0,0 +1,114 @@
+/**
+ * In-memory transport that connects a Client to an in-process peer without a network.
+ *
+ * @module
+ * @license MIT
+ * @copyright 2023-2026 Bernd Amend
+ */
+
+/** One end of an in-memory connection, the bytes written to the writable are read from the readable of the other end. */
+export type LoopbackTransport = {
+  readable: ReadableStream<Uint8Array<ArrayBuffer>>;
+  writable: WritableStream<Uint8Array>;
+};
+
+/**
+ * Creates the two connected ends of an in-memory connection.
+ * Closing the writable of one end closes the readable of the other end,
+ * canceling the readable of one end errors the writable of the other end.
+ * The written chunks are copied, like a network would do.
+ * @example
+ * ```ts
+ * const [client, peer] = createLoopbackPair();
+ * const packets = peer.readable.pipeThrough(new TransformStream(new DeserializeStream()));
+ * ```
+ * @returns the two ends, it doesn't matter which end is used by the client
+ */
+export function createLoopbackPair(): [LoopbackTransport, LoopbackTransport] {
+  const a = new TransformStream<Uint8Array, Uint8Array<ArrayBuffer>>({
+    transform: (chunk, controller) => controller.enqueue(chunk.slice()),
+  });
+  const b = new TransformStream<Uint8Array, Uint8Array<ArrayBuffer>>({
+    transform: (chunk, controller) => controller.enqueue(chunk.slice()),
+  });
+  return [
+    { readable: b.readable, writable: a.writable },
+    { readable: a.readable, writable: b.writable },
+  ];
+}
+
+const listeners = new Map<string, LoopbackListener>();
+
+/**
+ * Accepts in-memory connections to memory://name, see listenLoopback.
+ */
+export class LoopbackListener implements Disposable {
+  #closed = false;
+
+  /**
+   * Creates a new LoopbackListener, use listenLoopback instead.
+   * @param name the name used in the memory://name address
+   * @param onConnection called with the peer end of every new connection
+   */
+  constructor(
+    readonly name: string,
+    readonly onConnection: (peer: LoopbackTransport) => void,
+  ) {}
+
+  /** Stops accepting connections, established connections stay open. */
+  close() {
+    if (this.#closed) {
+      return;
+    }
+    this.#closed = true;
+    if (listeners.get(this.name) === this) {
+      listeners.delete(this.name);
+    }
+  }
+
+  /** Closes the listener. */
+  [Symbol.dispose]() {
+    this.close();
+  }
+}
+
+/**
+ * Accepts in-memory connections to memory://name, e.g. from a Client created with the address "memory://name".
+ * Every connection attempt calls onConnection with the peer end, so reconnects can be tested as well.
+ * @example
+ * ```ts
+ * using listener = listenLoopback("test", (peer) => broker.handleConnection(peer));
+ * await using client = new Client("memory://test");
+ * ```
+ * @param name the name used in the memory://name address
+ * @param onConnection called with the peer end of every new connection
+ * @returns the listener, close it to stop accepting connections
+ * @throws if another listener uses the name
+ */
+export function listenLoopback(
+  name: string,
+  onConnection: (peer: LoopbackTransport) => void,
+): LoopbackListener {
+  if (listeners.has(name)) {
+    throw new Error(`The loopback name ${name} is already in use`);
+  }
+  const listener = new LoopbackListener(name, onConnection);
+  listeners.set(name, listener);
+  return listener;
+}
+
+/**
+ * Connects to the listener with the name.
+ * @param name the name passed to listenLoopback
+ * @returns the client end of the connection
+ * @throws if no listener uses the name, like a refused network connection
+ */
+export function connectLoopback(name: string): LoopbackTransport {
+  const listener = listeners.get(name);
+  if (listener === undefined) {
+    throw new Error(`No loopback listener named ${name}`);
+  }
+  const [client, peer] = createLoopbackPair();
+  listener.onConnection(peer);
+  return client;
+}
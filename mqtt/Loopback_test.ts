@@ -0,0 +1,92 @@
+/**
+ * Copyright 2023-2026 Bernd Amend. MIT license.
+ */
+import { assertEquals, assertThrows } from "@std/assert";
+import * as m from "./mod.ts";
+
+Deno.test("createLoopbackPair connects both ends", async () => {
+  const [a, b] = m.createLoopbackPair();
+  const packets = b.readable.pipeThrough(
+    new TransformStream(new m.DeserializeStream()),
+  ).getReader();
+  const writer = a.writable.getWriter();
+  const data = m.PingReqMessage.slice();
+  await writer.write(data);
+  // the chunks are copied
+  data.fill(0);
+  assertEquals((await packets.read()).value, {
+    type: m.ControlPacketType.PingReq,
+  });
+  await writer.close();
+  assertEquals((await packets.read()).done, true);
+
+  const reader = a.readable.getReader();
+  await b.writable.getWriter().close();
+  assertEquals((await reader.read()).done, true);
+});
+
+Deno.test("Client reconnects to a memory:// peer", async () => {
+  const connects: m.ConnectPacket[] = [];
+  using listener = m.listenLoopback("reconnect", async (peer) => {
+    const writer = peer.writable.getWriter();
+    for await (
+      const packet of peer.readable.pipeThrough(
+        new TransformStream(new m.DeserializeStream()),
+      )
+    ) {
+      if (packet.type === m.ControlPacketType.Disconnect) {
+        break;
+      }
+      if (packet.type !== m.ControlPacketType.Connect) {
+        continue;
+      }
+      connects.push(packet);
+      await writer.write(
+        m.serializeConnAckPacket({ session_present: false }, new m.Writer()),
+      );
+      // the first connection is dropped after the CONNACK
+      if (connects.length === 1) {
+        break;
+      }
+    }
+    await writer.close();
+  });
+  assertThrows(() => m.listenLoopback("reconnect", () => {}));
+
+  await using client = new m.Client("memory://reconnect", {
+    client_id: m.asClientID("loopback"),
+  }, { reconnectTime: 10 as m.Milliseconds });
+  let connAcks = 0;
+  for await (const packet of client.readable) {
+    if (packet.type === m.ControlPacketType.ConnAck && ++connAcks === 2) {
+      break;
+    }
+  }
+  assertEquals(connects.map((p) => p.client_id), [
+    m.asClientID("loopback"),
+    m.asClientID("loopback"),
+  ]);
+
+  listener.close();
+  assertThrows(() => m.connectLoopback("reconnect"), Error, "No loopback");
+});
+
+Deno.test("Client connects to a Broker through memory://", async () => {
+  await using broker = new m.Broker();
+  using _listener = m.listenLoopback(
+    "broker",
+    (peer) => broker.handleConnection(peer),
+  );
+  await using client = new m.Client("memory://broker", {}, {
+    publishDeserializeOptions: m.PublishDeserializeOptions.UTF8String,
+  });
+  await client.waitForConnected({ timeout: 1000 as m.Milliseconds });
+  await using subscription = await client.subscribeStream({
+    subscriptions: [{ topic: m.asTopicFilter("loop") }],
+  });
+  await client.publish({ topic: m.asTopic("loop"), payload: "back" });
+  for await (const packet of subscription) {
+    assertEquals(packet.payload, "back");
+    break;
+  }
+});
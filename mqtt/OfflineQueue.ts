@@ -0,0 +1,180 @@
+/**
+ * Queue for publishes sent while the MQTT client is not connected.
+ *
+ * @module
+ * @license MIT
+ * @copyright 2023-2026 Bernd Amend
+ */
+import type {
+  PubAckPacket,
+  PubCompPacket,
+  PublishPacket,
+  Seconds,
+} from "./packets.ts";
+import type { MakeSerializePacketType } from "./serialize.ts";
+import { MqttError } from "./errors.ts";
+
+/**
+ * Decides what happens if a publish doesn't fit into the OfflineQueue.
+ *  - drop-oldest: the oldest queued messages are dropped until the new message fits
+ *  - drop-newest: the new message is dropped
+ *  - reject: the publish of the new message is rejected
+ */
+export type OfflineQueueOverflowPolicy =
+  | "drop-oldest"
+  | "drop-newest"
+  | "reject";
+
+/** Configuration of the OfflineQueue. */
+export type OfflineQueueOptions = {
+  /** The maximum number of queued messages, defaults to 1000. */
+  maxMessages?: number;
+  /** The maximum size of all queued messages in bytes, defaults to 1 MiB. */
+  maxBytes?: number;
+  /** Defaults to drop-oldest. */
+  overflowPolicy?: OfflineQueueOverflowPolicy;
+};
+
+/** A publish waiting in the OfflineQueue. */
+export type QueuedPublish = {
+  packet: MakeSerializePacketType<PublishPacket>;
+  size: number;
+  queuedAt: number;
+  resolve: (reply: PubAckPacket | PubCompPacket | undefined) => void;
+  reject: (err: Error) => void;
+};
+
+/**
+ * Keeps publishes in order until the client is connected again.
+ * The publish of a dropped or expired message is rejected with a MqttError.
+ */
+export class OfflineQueue {
+  #queue: QueuedPublish[] = [];
+  #bytes = 0;
+
+  /**
+   * Creates a new OfflineQueue.
+   * @param options - Optional configuration
+   */
+  constructor(readonly options?: OfflineQueueOptions) {}
+
+  /** The number of queued messages. */
+  get length(): number {
+    return this.#queue.length;
+  }
+
+  /** The size of all queued messages in bytes. */
+  get bytes(): number {
+    return this.#bytes;
+  }
+
+  /**
+   * Queues a publish.
+   * @param packet the publish
+   * @param size the size of the serialized publish in bytes
+   * @returns a promise that resolves like Client.publish once the message was sent after the reconnect
+   * @throws {MqttError} if the message doesn't fit and the overflowPolicy is reject or drop-newest,
+   * or if the message is dropped later on
+   */
+  push(
+    packet: MakeSerializePacketType<PublishPacket>,
+    size: number,
+  ): Promise<PubAckPacket | PubCompPacket | undefined> {
+    const maxMessages = this.options?.maxMessages ?? 1000;
+    const maxBytes = this.options?.maxBytes ?? 1024 * 1024;
+    const overflowPolicy = this.options?.overflowPolicy ?? "drop-oldest";
+    const fits = () =>
+      this.#queue.length < maxMessages && this.#bytes + size <= maxBytes;
+
+    if (!fits()) {
+      if (overflowPolicy === "reject" || size > maxBytes) {
+        return Promise.reject(
+          new MqttError(
+            `The offline queue is full, ${this.#queue.length} messages with ${this.#bytes} bytes are queued`,
+          ),
+        );
+      }
+      if (overflowPolicy === "drop-newest") {
+        return Promise.reject(
+          new MqttError("The offline queue is full, the message was dropped"),
+        );
+      }
+      while (!fits()) {
+        this.shift()!.reject(
+          new MqttError(
+            "The offline queue is full, the message was dropped for a newer one",
+          ),
+        );
+      }
+    }
+
+    const { promise, resolve, reject } = Promise.withResolvers<
+      PubAckPacket | PubCompPacket | undefined
+    >();
+    this.#queue.push({ packet, size, queuedAt: Date.now(), resolve, reject });
+    this.#bytes += size;
+    return promise;
+  }
+
+  /**
+   * Removes the oldest message.
+   * @returns the oldest message or undefined if the queue is empty
+   */
+  shift(): QueuedPublish | undefined {
+    const entry = this.#queue.shift();
+    if (entry) {
+      this.#bytes -= entry.size;
+    }
+    return entry;
+  }
+
+  /**
+   * Puts a message removed with shift back at the front, ignores the limits.
+   * @param entry the message returned by shift
+   */
+  unshift(entry: QueuedPublish) {
+    this.#queue.unshift(entry);
+    this.#bytes += entry.size;
+  }
+
+  /**
+   * Removes the oldest message that didn't expire while it was queued, the expired messages are rejected.
+   * The message_expiry_interval of the returned message is reduced by the time it was queued.
+   * 3.3.2.3.3 https://docs.oasis-open.org/mqtt/mqtt/v5.0/os/mqtt-v5.0-os.html#_Toc3901112
+   * @param now the current time in milliseconds
+   * @returns the oldest message or undefined if the queue is empty
+   */
+  shiftUnexpired(now = Date.now()): QueuedPublish | undefined {
+    for (let entry = this.shift(); entry; entry = this.shift()) {
+      const interval = entry.packet.properties?.message_expiry_interval;
+      if (interval === undefined) {
+        return entry;
+      }
+      const remaining = interval - Math.floor((now - entry.queuedAt) / 1000);
+      if (remaining > 0) {
+        entry.packet = {
+          ...entry.packet,
+          properties: {
+            ...entry.packet.properties,
+            message_expiry_interval: remaining as Seconds,
+          },
+        };
+        return entry;
+      }
+      entry.reject(
+        new MqttError("The message expired in the offline queue"),
+      );
+    }
+    return undefined;
+  }
+
+  /**
+   * Rejects all queued messages.
+   * @param err the error passed to the publish calls
+   */
+  clear(err: Error) {
+    for (let entry = this.shift(); entry; entry = this.shift()) {
+      entry.reject(err);
+    }
+  }
+}
@@ -0,0 +1,70 @@
+/**
+ * Copyright 2023-2026 Bernd Amend. MIT license.
+ */
+import { assertEquals, assertRejects } from "@std/assert";
+import * as m from "./mod.ts";
+
+function publish(payload: string, message_expiry_interval?: number) {
+  return {
+    type: m.ControlPacketType.Publish,
+    topic: m.asTopic("a"),
+    payload,
+    properties: message_expiry_interval === undefined
+      ? undefined
+      : { message_expiry_interval: message_expiry_interval as m.Seconds },
+  } as const;
+}
+
+Deno.test("OfflineQueue overflow policies", async () => {
+  const oldest = new m.OfflineQueue({ maxMessages: 2 });
+  const first = oldest.push(publish("1"), 10);
+  oldest.push(publish("2"), 10);
+  oldest.push(publish("3"), 10);
+  await assertRejects(() => first, m.MqttError, "dropped");
+  assertEquals(oldest.length, 2);
+  assertEquals(oldest.bytes, 20);
+  assertEquals(oldest.shift()?.packet.payload, "2");
+
+  const newest = new m.OfflineQueue({
+    maxBytes: 15,
+    overflowPolicy: "drop-newest",
+  });
+  newest.push(publish("1"), 10);
+  await assertRejects(
+    () => newest.push(publish("2"), 10),
+    m.MqttError,
+    "dropped",
+  );
+  assertEquals(newest.length, 1);
+
+  const reject = new m.OfflineQueue({
+    maxMessages: 1,
+    overflowPolicy: "reject",
+  });
+  reject.push(publish("1"), 10);
+  await assertRejects(() => reject.push(publish("2"), 10), m.MqttError);
+  assertEquals(reject.length, 1);
+
+  // a message larger than maxBytes never fits
+  await assertRejects(() => oldest.push(publish("big"), 2000000), m.MqttError);
+});
+
+Deno.test("OfflineQueue message expiry", async () => {
+  const queue = new m.OfflineQueue();
+  const expired = queue.push(publish("1", 1), 10);
+  queue.push(publish("2", 10), 10);
+  queue.push(publish("3"), 10);
+
+  const now = Date.now() + 2500;
+  const entry = queue.shiftUnexpired(now)!;
+  await assertRejects(() => expired, m.MqttError, "expired");
+  assertEquals(entry.packet.payload, "2");
+  assertEquals(entry.packet.properties?.message_expiry_interval, 8);
+  assertEquals(queue.shiftUnexpired(now)?.packet.payload, "3");
+  assertEquals(queue.shiftUnexpired(now), undefined);
+
+  const cleared = queue.push(publish("4"), 10);
+  queue.clear(new Error("closed"));
+  await assertRejects(() => cleared, Error, "closed");
+  assertEquals(queue.bytes, 0);
+});
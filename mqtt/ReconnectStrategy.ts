@@ -0,0 +1,82 @@
+/**
+ * Reconnect strategies for the MQTT client.
+ *
+ * @module
+ * @license MIT
+ * @copyright 2023-2026 Bernd Amend
+ */
+import { ConnectReasonCode, type Milliseconds } from "./packets.ts";
+
+/**
+ * Decides if and when the client tries to reconnect.
+ * @param attempt the number of consecutive failures, starting with 1. Reset after a stable connection.
+ * @param failure the error of the failed connection attempt (also sent as FailedConnectionAttempt),
+ * the connect_reason_code if the server rejected the connection, a ConnectionLostError
+ * or a ServerRedirectError
+ * @returns the delay in milliseconds before the next connection attempt, undefined to give up
+ */
+export type ReconnectStrategy = (
+  attempt: number,
+  failure: Error | ConnectReasonCode,
+) => Milliseconds | undefined;
+
+/**
+ * Connect reason codes that indicate a temporary problem of the server, the connection is retried.
+ * 3.2.2.2 https://docs.oasis-open.org/mqtt/mqtt/v5.0/os/mqtt-v5.0-os.html#_Toc3901079
+ */
+export const TemporaryConnectReasonCodes: readonly ConnectReasonCode[] = [
+  ConnectReasonCode.Server_unavailable,
+  ConnectReasonCode.Server_busy,
+  ConnectReasonCode.Connection_rate_exceeded,
+];
+
+/**
+ * The default strategy of the client.
+ * Waits the same delay before every connection attempt, also after losing the connection.
+ * Gives up if the server rejected the connection.
+ * @param reconnectTime - The delay in milliseconds between the connection attempts, 0 disables reconnecting
+ */
+export function fixedDelay(reconnectTime: Milliseconds): ReconnectStrategy {
+  return (_attempt, failure) => {
+    if (typeof failure === "number" || reconnectTime <= 0) {
+      return undefined;
+    }
+    return reconnectTime;
+  };
+}
+
+/**
+ * Exponential backoff with full jitter, the delay is a random value between 0 and
+ * min(maximum, minimum * 2^(attempt - 1)).
+ * The jitter prevents that many clients reconnect to a restarted server at the same time.
+ * Connections rejected by the server are only retried for the TemporaryConnectReasonCodes.
+ * @param options - Optional configuration
+ * @param options.minimum - The upper limit of the delay for the first attempt, defaults to 1 second
+ * @param options.maximum - The upper limit of the delay, defaults to 60 seconds
+ * @param options.jitter - If false, the upper limit is used as delay, defaults to true
+ * @param options.maxAttempts - Gives up after this number of consecutive failures, defaults to unlimited
+ */
+export function exponentialBackoff(options?: {
+  minimum?: Milliseconds;
+  maximum?: Milliseconds;
+  jitter?: boolean;
+  maxAttempts?: number;
+}): ReconnectStrategy {
+  const minimum = options?.minimum ?? 1_000;
+  const maximum = options?.maximum ?? 60_000;
+  return (attempt, failure) => {
+    if (
+      typeof failure === "number" &&
+      !TemporaryConnectReasonCodes.includes(failure)
+    ) {
+      return undefined;
+    }
+    if (attempt > (options?.maxAttempts ?? Infinity)) {
+      return undefined;
+    }
+    const limit = Math.min(maximum, minimum * 2 ** (attempt - 1));
+    return Math.round(
+      options?.jitter === false ? limit : Math.random() * limit,
+    ) as Milliseconds;
+  };
+}
@@ -0,0 +1,43 @@
+/**
+ * Copyright 2023-2026 Bernd Amend. MIT license.
+ */
+import { assert, assertEquals } from "@std/assert";
+import * as m from "./mod.ts";
+
+Deno.test("exponentialBackoff", () => {
+  const err = new Error("connection refused");
+  const backoff = m.exponentialBackoff({
+    minimum: 100 as m.Milliseconds,
+    maximum: 1000 as m.Milliseconds,
+    jitter: false,
+    maxAttempts: 6,
+  });
+  assertEquals(
+    [1, 2, 3, 4, 5, 6, 7].map((attempt) => backoff(attempt, err)),
+    [100, 200, 400, 800, 1000, 1000, undefined],
+  );
+  assertEquals(backoff(1, m.ConnectReasonCode.Server_busy), 100);
+  assertEquals(backoff(1, m.ConnectReasonCode.Not_authorized), undefined);
+
+  const jitter = m.exponentialBackoff({
+    minimum: 100 as m.Milliseconds,
+    maximum: 1000 as m.Milliseconds,
+  });
+  for (let i = 0; i < 100; ++i) {
+    const delay = jitter(3, err)!;
+    assert(delay >= 0 && delay <= 400, `${delay}`);
+  }
+});
+
+Deno.test("fixedDelay", () => {
+  const strategy = m.fixedDelay(500 as m.Milliseconds);
+  assertEquals(strategy(1, new m.ConnectionLostError()), 500);
+  assertEquals(strategy(2, new m.ConnectionLostError()), 500);
+  assertEquals(strategy(1, new Error("connection refused")), 500);
+  assertEquals(strategy(1, m.ConnectReasonCode.Server_busy), undefined);
+
+  // 0 disables reconnecting instead of retrying without a delay
+  const disabled = m.fixedDelay(0 as m.Milliseconds);
+  assertEquals(disabled(1, new m.ConnectionLostError()), undefined);
+  assertEquals(disabled(1, new Error("connection refused")), undefined);
+});
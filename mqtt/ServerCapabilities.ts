@@ -0,0 +1,145 @@
+/**
+ * Capabilities the MQTT server advertises in the CONNACK packet.
+ *
+ * @module
+ * @license MIT
+ * @copyright 2023-2026 Bernd Amend
+ */
+import {
+  type ConnAckPacket,
+  ProtocolVersion,
+  type PublishPacket,
+  QoS,
+  type SubscribePacket,
+} from "./packets.ts";
+import type { MakeSerializePacketType } from "./serialize.ts";
+import { CapabilityError } from "./errors.ts";
+import { parseSharedSubscription } from "./TopicMatcher.ts";
+
+/**
+ * The capabilities of the server with the defaults of the specification applied.
+ * 3.2.2.3 https://docs.oasis-open.org/mqtt/mqtt/v5.0/os/mqtt-v5.0-os.html#_Toc3901080
+ */
+export type ServerCapabilities = Readonly<{
+  /** 3.2.2.3.4 The highest QoS of publishes the server accepts. */
+  maximum_QoS: QoS;
+  /** 3.2.2.3.5 If the server supports retained messages. */
+  retain_available: boolean;
+  /** 3.2.2.3.6 The maximum size of packets the server accepts. */
+  maximum_packet_size: number;
+  /** 3.2.2.3.3 The maximum number of in-flight QoS 1 and QoS 2 publishes. */
+  receive_maximum: number;
+  /** 3.2.2.3.8 The highest topic alias the server accepts, 0 if topic aliases are not supported. */
+  topic_alias_maximum: number;
+  /** 3.2.2.3.11 If the server supports wildcards in topic filters. */
+  wildcard_subscription_available: boolean;
+  /** 3.2.2.3.12 If the server supports subscription identifiers. */
+  subscription_identifiers_available: boolean;
+  /** 3.2.2.3.13 If the server supports shared subscriptions. */
+  shared_subscription_available: boolean;
+}>;
+
+/**
+ * Extracts the capabilities of a successful CONNACK packet, absent properties are set to their default.
+ * MQTT 3.1.1 servers don't advertise capabilities, they have no topic aliases and subscription identifiers.
+ * @param connAck - The CONNACK packet of the server
+ * @param protocolVersion - The protocol version of the connection, defaults to MQTT 5
+ * @returns the normalized capabilities
+ */
+export function serverCapabilities(
+  connAck: Pick<ConnAckPacket, "properties">,
+  protocolVersion: ProtocolVersion = ProtocolVersion.MQTT_5,
+): ServerCapabilities {
+  const properties = connAck.properties;
+  return {
+    maximum_QoS: properties?.maximum_QoS ?? QoS.Exactly_once_delivery,
+    retain_available: properties?.retain_available ?? true,
+    maximum_packet_size: properties?.maximum_packet_size ?? 268_435_455,
+    receive_maximum: properties?.receive_maximum ?? 65535,
+    topic_alias_maximum: properties?.topic_alias_maximum ?? 0,
+    wildcard_subscription_available:
+      properties?.wildcard_subscription_available ?? true,
+    subscription_identifiers_available:
+      protocolVersion === ProtocolVersion.MQTT_5 &&
+      (properties?.subscription_identifiers_available ?? true),
+    shared_subscription_available: properties?.shared_subscription_available ??
+      true,
+  };
+}
+
+/**
+ * Checks if the server accepts the publish.
+ * 3.2.2.3.4 and 3.2.2.3.5 https://docs.oasis-open.org/mqtt/mqtt/v5.0/os/mqtt-v5.0-os.html#_Toc3901084
+ * @param packet - The publish
+ * @param capabilities - The capabilities of the server
+ * @param downgradeQoS - If true, a QoS above the maximum_QoS is reduced instead of rejected
+ * @returns the publish, with the reduced QoS if it was downgraded
+ * @throws {CapabilityError} if the server doesn't support the QoS or retained messages
+ */
+export function checkPublishCapabilities(
+  packet: MakeSerializePacketType<PublishPacket>,
+  capabilities: ServerCapabilities,
+  downgradeQoS = false,
+): MakeSerializePacketType<PublishPacket> {
+  if (packet.retain && !capabilities.retain_available) {
+    throw new CapabilityError(
+      `The server doesn't support retained messages, topic=${packet.topic}`,
+      "retain_available",
+    );
+  }
+  const qos = packet.qos ?? QoS.At_most_once_delivery;
+  if (qos > capabilities.maximum_QoS) {
+    if (!downgradeQoS) {
+      throw new CapabilityError(
+        `The server doesn't support ${QoS[qos]}, the maximum_QoS is ${
+          QoS[capabilities.maximum_QoS]
+        }, topic=${packet.topic}`,
+        "maximum_QoS",
+      );
+    }
+    return { ...packet, qos: capabilities.maximum_QoS };
+  }
+  return packet;
+}
+
+/**
+ * Checks if the server supports the topic filters and properties of the subscribe.
+ * 3.2.2.3.11 - 3.2.2.3.13 https://docs.oasis-open.org/mqtt/mqtt/v5.0/os/mqtt-v5.0-os.html#_Toc3901091
+ * @param packet - The subscribe
+ * @param capabilities - The capabilities of the server
+ * @throws {CapabilityError} if the server doesn't support wildcards, shared subscriptions or subscription identifiers
+ */
+export function checkSubscribeCapabilities(
+  packet: Pick<SubscribePacket, "subscriptions" | "properties">,
+  capabilities: ServerCapabilities,
+) {
+  if (
+    packet.properties?.subscription_identifier &&
+    !capabilities.subscription_identifiers_available
+  ) {
+    throw new CapabilityError(
+      "The server doesn't support subscription identifiers",
+      "subscription_identifiers_available",
+    );
+  }
+  for (const { topic } of packet.subscriptions) {
+    const { shareName, filter } = parseSharedSubscription(topic);
+    if (
+      shareName !== undefined && !capabilities.shared_subscription_available
+    ) {
+      throw new CapabilityError(
+        `The server doesn't support shared subscriptions, topic=${topic}`,
+        "shared_subscription_available",
+      );
+    }
+    if (
+      !capabilities.wildcard_subscription_available &&
+      filter.split("/").some((level) => level === "+" || level === "#")
+    ) {
+      throw new CapabilityError(
+        `The server doesn't support wildcard subscriptions, topic=${topic}`,
+        "wildcard_subscription_available",
+      );
+    }
+  }
+}
@@ -0,0 +1,117 @@
+/**
+ * Copyright 2023-2026 Bernd Amend. MIT license.
+ */
+import { assertEquals, assertThrows } from "@std/assert";
+import * as m from "./mod.ts";
+
+Deno.test("serverCapabilities applies the defaults", () => {
+  assertEquals(m.serverCapabilities({}), {
+    maximum_QoS: m.QoS.Exactly_once_delivery,
+    retain_available: true,
+    maximum_packet_size: 268_435_455,
+    receive_maximum: 65535,
+    topic_alias_maximum: 0,
+    wildcard_subscription_available: true,
+    subscription_identifiers_available: true,
+    shared_subscription_available: true,
+  });
+  const capabilities = m.serverCapabilities({
+    properties: {
+      maximum_QoS: m.QoS.At_least_once_delivery,
+      retain_available: false,
+      wildcard_subscription_available: false,
+    },
+  });
+  assertEquals(capabilities.maximum_QoS, m.QoS.At_least_once_delivery);
+  assertEquals(capabilities.retain_available, false);
+  assertEquals(capabilities.wildcard_subscription_available, false);
+  assertEquals(capabilities.shared_subscription_available, true);
+});
+
+Deno.test("checkPublishCapabilities", () => {
+  const capabilities = m.serverCapabilities({
+    properties: {
+      maximum_QoS: m.QoS.At_least_once_delivery,
+      retain_available: false,
+    },
+  });
+  const publish = {
+    topic: m.asTopic("a"),
+    qos: m.QoS.Exactly_once_delivery,
+  };
+
+  const err = assertThrows(
+    () => m.checkPublishCapabilities(publish, capabilities),
+    m.CapabilityError,
+  );
+  assertEquals(err.capability, "maximum_QoS");
+  assertEquals(
+    m.checkPublishCapabilities(publish, capabilities, true).qos,
+    m.QoS.At_least_once_delivery,
+  );
+  assertEquals(
+    assertThrows(
+      () =>
+        m.checkPublishCapabilities(
+          { topic: m.asTopic("a"), retain: true },
+          capabilities,
+          true,
+        ),
+      m.CapabilityError,
+    ).capability,
+    "retain_available",
+  );
+  const allowed = { topic: m.asTopic("a") };
+  assertEquals(m.checkPublishCapabilities(allowed, capabilities), allowed);
+});
+
+Deno.test("checkSubscribeCapabilities", () => {
+  const capabilities = m.serverCapabilities({
+    properties: {
+      wildcard_subscription_available: false,
+      subscription_identifiers_available: false,
+      shared_subscription_available: false,
+    },
+  });
+  const check = (topic: string, subscription_identifier?: number) =>
+    m.checkSubscribeCapabilities({
+      subscriptions: [{ topic: m.asTopicFilter(topic) }],
+      properties: { subscription_identifier },
+    }, capabilities);
+
+  check("sensors/kitchen");
+  assertEquals(
+    assertThrows(() => check("sensors/+"), m.CapabilityError).capability,
+    "wildcard_subscription_available",
+  );
+  assertEquals(
+    assertThrows(() => check("sensors/#"), m.CapabilityError).capability,
+    "wildcard_subscription_available",
+  );
+  assertEquals(
+    assertThrows(() => check("$share/group/sensors"), m.CapabilityError)
+      .capability,
+    "shared_subscription_available",
+  );
+  assertEquals(
+    assertThrows(() => check("sensors", 5), m.CapabilityError).capability,
+    "subscription_identifiers_available",
+  );
+});
+
+Deno.test("serverCapabilities of MQTT 3.1.1 servers", () => {
+  const capabilities = m.serverCapabilities({}, m.ProtocolVersion.MQTT_3_1_1);
+  assertEquals(capabilities.subscription_identifiers_available, false);
+  assertEquals(capabilities.topic_alias_maximum, 0);
+  assertEquals(
+    assertThrows(
+      () =>
+        m.checkSubscribeCapabilities({
+          subscriptions: [{ topic: m.asTopicFilter("a") }],
+          properties: { subscription_identifier: 1 },
+        }, capabilities),
+      m.CapabilityError,
+    ).capability,
+    "subscription_identifiers_available",
+  );
+});
@@ -0,0 +1,244 @@
+/**
+ * Session state storage for the MQTT client.
+ *
+ * @module
+ * @license MIT
+ * @copyright 2023-2026 Bernd Amend
+ */
+import { DataReader, toHexString } from "../helper/mod.ts";
+import {
+  ControlPacketType,
+  type PacketIdentifier,
+  type PublishPacket,
+  type PubRelPacket,
+} from "./packets.ts";
+import { serializePublishPacket, Writer } from "./serialize.ts";
+import {
+  deserializePacket,
+  PublishDeserializeOptions,
+  readFixedHeader,
+} from "./deserialize.ts";
+
+/**
+ * The client side session state that has to survive reconnects.
+ * 4.1 https://docs.oasis-open.org/mqtt/mqtt/v5.0/os/mqtt-v5.0-os.html#_Toc3901230
+ */
+export type SessionState = {
+  /**
+   * QoS 1/2 publishes that were sent but not completely acknowledged, in the order they were sent.
+   * A PubRelPacket replaces the publish once the PubRec was received.
+   */
+  outgoing: (PublishPacket | PubRelPacket)[];
+  /** Packet identifiers of received QoS 2 publishes that were acknowledged with a PubRec, but not yet released. */
+  received: PacketIdentifier[];
+};
+
+/**
+ * Storage for the client side session state.
+ * The Client calls the functions in the order the state changes and waits for the returned promises,
+ * before it continues with the exchange.
+ */
+export interface SessionStore {
+  /** Returns the stored session state, called once before the client connects. */
+  load(): Promise<SessionState>;
+  /** Stores an outgoing QoS 1/2 publish before it is sent, the packet_identifier is set. */
+  storePublish(packet: PublishPacket): Promise<void>;
+  /** The PubRec for an outgoing QoS 2 publish was received, only the PubRel has to be retransmitted. */
+  storePubRel(packet_identifier: PacketIdentifier): Promise<void>;
+  /** The exchange for an outgoing publish was completed. */
+  removeOutgoing(packet_identifier: PacketIdentifier): Promise<void>;
+  /** A PubRec for a received QoS 2 publish was sent. */
+  storeReceived(packet_identifier: PacketIdentifier): Promise<void>;
+  /** The PubRel for a received QoS 2 publish was received. */
+  removeReceived(packet_identifier: PacketIdentifier): Promise<void>;
+  /** Discards the stored state, e.g. the server didn't resume the session. */
+  clear(): Promise<void>;
+}
+
+/**
+ * A SessionStore that keeps the state in memory.
+ * The state survives reconnects, but not restarts of the application.
+ */
+export class MemorySessionStore implements SessionStore {
+  /** QoS 1/2 publishes that were not completely acknowledged. */
+  protected outgoing = new Map<
+    PacketIdentifier,
+    PublishPacket | PubRelPacket
+  >();
+  /** Received QoS 2 packet identifiers that were not released. */
+  protected received = new Set<PacketIdentifier>();
+
+  load(): Promise<SessionState> {
+    return Promise.resolve({
+      outgoing: [...this.outgoing.values()],
+      received: [...this.received],
+    });
+  }
+
+  storePublish(packet: PublishPacket): Promise<void> {
+    this.outgoing.set(packet.packet_identifier!, packet);
+    return Promise.resolve();
+  }
+
+  storePubRel(packet_identifier: PacketIdentifier): Promise<void> {
+    // Map.set keeps the position of existing keys, the order is preserved
+    this.outgoing.set(packet_identifier, {
+      type: ControlPacketType.PubRel,
+      packet_identifier,
+    });
+    return Promise.resolve();
+  }
+
+  removeOutgoing(packet_identifier: PacketIdentifier): Promise<void> {
+    this.outgoing.delete(packet_identifier);
+    return Promise.resolve();
+  }
+
+  storeReceived(packet_identifier: PacketIdentifier): Promise<void> {
+    this.received.add(packet_identifier);
+    return Promise.resolve();
+  }
+
+  removeReceived(packet_identifier: PacketIdentifier): Promise<void> {
+    this.received.delete(packet_identifier);
+    return Promise.resolve();
+  }
+
+  clear(): Promise<void> {
+    this.outgoing.clear();
+    this.received.clear();
+    return Promise.resolve();
+  }
+}
+
+/**
+ * The JSON format used by the FileSessionStore.
+ * Publishes are stored as hex encoded MQTT packets.
+ */
+type SessionFile = {
+  outgoing: ({ publish: string } | { pubrel: PacketIdentifier })[];
+  received: PacketIdentifier[];
+};
+
+/**
+ * A SessionStore that keeps the state in a JSON file, requires Deno.
+ * The state survives restarts of the application,
+ * as long as the client connects with clean_start set to false and a session_expiry_interval.
+ * The file is rewritten after every change.
+ */
+export class FileSessionStore extends MemorySessionStore {
+  #writer = new Writer();
+  #pendingWrite: Promise<void> = Promise.resolve();
+
+  /**
+   * Creates a new FileSessionStore.
+   * @param path - The path of the JSON file, it is created if it doesn't exist
+   */
+  constructor(readonly path: string) {
+    super();
+  }
+
+  override async load(): Promise<SessionState> {
+    let content: string;
+    try {
+      content = await Deno.readTextFile(this.path);
+    } catch (e: unknown) {
+      if (e instanceof Deno.errors.NotFound) {
+        return super.load();
+      }
+      throw e;
+    }
+    const file: SessionFile = JSON.parse(content);
+    this.outgoing.clear();
+    for (const entry of file.outgoing) {
+      if ("pubrel" in entry) {
+        this.outgoing.set(entry.pubrel, {
+          type: ControlPacketType.PubRel,
+          packet_identifier: entry.pubrel,
+        });
+      } else {
+        const r = new DataReader(fromHexString(entry.publish));
+        const packet = deserializePacket(
+          readFixedHeader(r)!,
+          r,
+          PublishDeserializeOptions.PayloadFormatIndicator,
+        );
+        if (packet.type !== ControlPacketType.Publish) {
+          throw new Error(
+            `Invalid session file ${this.path}, expected a publish packet`,
+          );
+        }
+        this.outgoing.set(packet.packet_identifier!, packet);
+      }
+    }
+    this.received = new Set(file.received);
+    return super.load();
+  }
+
+  override async storePublish(packet: PublishPacket): Promise<void> {
+    await super.storePublish(packet);
+    await this.#save();
+  }
+
+  override async storePubRel(
+    packet_identifier: PacketIdentifier,
+  ): Promise<void> {
+    await super.storePubRel(packet_identifier);
+    await this.#save();
+  }
+
+  override async removeOutgoing(
+    packet_identifier: PacketIdentifier,
+  ): Promise<void> {
+    await super.removeOutgoing(packet_identifier);
+    await this.#save();
+  }
+
+  override async storeReceived(
+    packet_identifier: PacketIdentifier,
+  ): Promise<void> {
+    await super.storeReceived(packet_identifier);
+    await this.#save();
+  }
+
+  override async removeReceived(
+    packet_identifier: PacketIdentifier,
+  ): Promise<void> {
+    await super.removeReceived(packet_identifier);
+    await this.#save();
+  }
+
+  override async clear(): Promise<void> {
+    await super.clear();
+    await this.#save();
+  }
+
+  /**
+   * Writes the current state, the writes are serialized to ensure the last state ends up in the file.
+   */
+  #save(): Promise<void> {
+    const file: SessionFile = {
+      outgoing: [...this.outgoing.values()].map((p) =>
+        p.type === ControlPacketType.PubRel
+          ? { pubrel: p.packet_identifier }
+          : { publish: toHexString(serializePublishPacket(p, this.#writer)) }
+      ),
+      received: [...this.received],
+    };
+    const content = JSON.stringify(file);
+    this.#pendingWrite = this.#pendingWrite.catch(() => {}).then(async () => {
+      const tmp = `${this.path}.tmp`;
+      await Deno.writeTextFile(tmp, content);
+      await Deno.rename(tmp, this.path);
+    });
+    return this.#pendingWrite;
+  }
+}
+
+function fromHexString(hex: string): Uint8Array {
+  const ret = new Uint8Array(hex.length / 2);
+  for (let i = 0; i < ret.length; ++i) {
+    ret[i] = Number.parseInt(hex.substring(i * 2, i * 2 + 2), 16);
+  }
+  return ret;
+}
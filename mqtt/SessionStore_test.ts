@@ -0,0 +1,77 @@
+/**
+ * Copyright 2023-2026 Bernd Amend. MIT license.
+ */
+import { assertEquals } from "@std/assert";
+import * as m from "./mod.ts";
+
+Deno.test("MemorySessionStore keeps the order of outgoing messages", async () => {
+  const store = new m.MemorySessionStore();
+  const publish = (packet_identifier: number): m.PublishPacket => ({
+    type: m.ControlPacketType.Publish,
+    topic: m.asTopic("foo/bar"),
+    qos: m.QoS.Exactly_once_delivery,
+    packet_identifier: packet_identifier as m.PacketIdentifier,
+    payload: "payload",
+  });
+  await store.storePublish(publish(1));
+  await store.storePublish(publish(2));
+  await store.storePublish(publish(3));
+  await store.storePubRel(1 as m.PacketIdentifier);
+  await store.removeOutgoing(2 as m.PacketIdentifier);
+  await store.storeReceived(7 as m.PacketIdentifier);
+
+  assertEquals(await store.load(), {
+    outgoing: [
+      {
+        type: m.ControlPacketType.PubRel,
+        packet_identifier: 1 as m.PacketIdentifier,
+      },
+      publish(3),
+    ],
+    received: [7 as m.PacketIdentifier],
+  });
+
+  await store.clear();
+  assertEquals(await store.load(), { outgoing: [], received: [] });
+});
+
+Deno.test("FileSessionStore restores the stored state", async () => {
+  const path = await Deno.makeTempFile({ suffix: ".json" });
+  try {
+    const publish: m.PublishPacket = {
+      type: m.ControlPacketType.Publish,
+      topic: m.asTopic("foo/bar"),
+      qos: m.QoS.At_least_once_delivery,
+      packet_identifier: 2 as m.PacketIdentifier,
+      payload: "payload",
+      properties: {
+        payload_format_indicator: m.PayloadFormatIndicator.UTF8,
+        user_properties: [{ key: "k", value: "v" }],
+      },
+    };
+    const store = new m.FileSessionStore(path);
+    await store.storePublish({
+      ...publish,
+      packet_identifier: 1 as m.PacketIdentifier,
+      qos: m.QoS.Exactly_once_delivery,
+    });
+    await store.storePublish(publish);
+    await store.storePubRel(1 as m.PacketIdentifier);
+    await store.storeReceived(3 as m.PacketIdentifier);
+    await store.storeReceived(4 as m.PacketIdentifier);
+    await store.removeReceived(3 as m.PacketIdentifier);
+
+    assertEquals(await new m.FileSessionStore(path).load(), {
+      outgoing: [
+        {
+          type: m.ControlPacketType.PubRel,
+          packet_identifier: 1 as m.PacketIdentifier,
+        },
+        publish,
+      ],
+      received: [4 as m.PacketIdentifier],
+    });
+  } finally {
+    await Deno.remove(path);
+  }
+});
@@ -0,0 +1,89 @@
+/**
+ * Per-subscription message streams of the MQTT client.
+ *
+ * @module
+ * @license MIT
+ * @copyright 2023-2026 Bernd Amend
+ */
+import type { PublishPacket, SubAckPacket, TopicFilter } from "./packets.ts";
+
+/**
+ * A subscription returned by Client.subscribeStream.
+ * Provides the received publishes that match the topic filters of the subscription,
+ * as ReadableStream or by iterating over the subscription.
+ * Disposing the subscription or cancelling the readable sends an UNSUBSCRIBE
+ * for all topic filters that are not used by another subscription of the same client.
+ */
+export class Subscription
+  implements AsyncDisposable, AsyncIterable<PublishPacket> {
+  #controller?: ReadableStreamDefaultController<PublishPacket>;
+  #closed = false;
+  #onDispose: (subscription: Subscription) => Promise<void>;
+  #disposed?: Promise<void>;
+  #readable: ReadableStream<PublishPacket>;
+
+  /** The SubAckPacket the server sent for the subscribe. */
+  subAck!: SubAckPacket;
+
+  /**
+   * Creates a new Subscription, use Client.subscribeStream instead.
+   * @param topicFilters - The topic filters of the subscribe
+   * @param onDispose - Called once when the subscription is disposed
+   */
+  constructor(
+    readonly topicFilters: readonly TopicFilter[],
+    onDispose: (subscription: Subscription) => Promise<void>,
+  ) {
+    this.#onDispose = onDispose;
+    this.#readable = new ReadableStream<PublishPacket>({
+      start: (controller) => {
+        this.#controller = controller;
+      },
+      cancel: async () => {
+        this.#closed = true;
+        await this.#dispose();
+      },
+    });
+  }
+
+  /**
+   * The received publishes that match the topic filters.
+   * The stream is closed if the subscription or the client is closed.
+   */
+  get readable(): ReadableStream<PublishPacket> {
+    return this.#readable;
+  }
+
+  /**
+   * Passes a received publish to the readable stream, called by the Client.
+   * @param packet - The received publish
+   */
+  enqueue(packet: PublishPacket) {
+    if (!this.#closed) {
+      this.#controller!.enqueue(packet);
+    }
+  }
+
+  /** Closes the readable stream without unsubscribing, called by the Client if it is closed. */
+  close() {
+    if (!this.#closed) {
+      this.#closed = true;
+      this.#controller!.close();
+    }
+  }
+
+  [Symbol.asyncIterator](): AsyncIterator<PublishPacket> {
+    return this.#readable[Symbol.asyncIterator]();
+  }
+
+  /** Closes the readable stream and unsubscribes. */
+  async [Symbol.asyncDispose]() {
+    this.close();
+    await this.#dispose();
+  }
+
+  #dispose(): Promise<void> {
+    this.#disposed ??= this.#onDispose(this);
+    return this.#disposed;
+  }
+}
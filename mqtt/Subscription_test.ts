@@ -0,0 +1,28 @@
+/**
+ * Copyright 2023-2026 Bernd Amend. MIT license.
+ */
+import { assertEquals } from "@std/assert";
+import * as m from "./mod.ts";
+
+Deno.test("Subscription disposes once and closes its readable", async () => {
+  let disposed = 0;
+  const subscription = new m.Subscription(
+    [m.asTopicFilter("#")],
+    () => {
+      ++disposed;
+      return Promise.resolve();
+    },
+  );
+  const packet: m.PublishPacket = {
+    type: m.ControlPacketType.Publish,
+    topic: m.asTopic("foo"),
+    payload: "bar",
+  };
+  subscription.enqueue(packet);
+  await subscription[Symbol.asyncDispose]();
+  await subscription[Symbol.asyncDispose]();
+  subscription.enqueue(packet);
+
+  assertEquals(await Array.fromAsync(subscription), [packet]);
+  assertEquals(disposed, 1);
+});
@@ -0,0 +1,71 @@
+/**
+ * MQTT 5.0 topic alias handling.
+ *
+ * @module
+ * @license MIT
+ * @copyright 2023-2026 Bernd Amend
+ */
+import type { Topic } from "./packets.ts";
+
+/**
+ * Decides which topics of outgoing publishes are replaced by topic aliases.
+ * 3.3.2.3.4 https://docs.oasis-open.org/mqtt/mqtt/v5.0/os/mqtt-v5.0-os.html#_Toc3901113
+ */
+export interface TopicAliasPolicy {
+  /**
+   * Forgets all aliases, called for every new connection.
+   * @param maximum the topic_alias_maximum of the server, 0 disables topic aliases
+   */
+  reset(maximum: number): void;
+  /**
+   * Returns the alias for the topic of an outgoing publish.
+   * If known is false, the alias was (re)assigned and the topic has to be sent together with the alias.
+   * @param topic the topic of the publish
+   * @returns the alias or undefined if the topic should be sent without an alias
+   */
+  get(topic: Topic): { alias: number; known: boolean } | undefined;
+}
+
+/**
+ * Assigns topic aliases to all topics, if all aliases are in use
+ * the alias of the least recently used topic is reassigned.
+ */
+export class LRUTopicAliasPolicy implements TopicAliasPolicy {
+  /** Insertion order is the usage order, the first entry is the least recently used topic. */
+  #aliases = new Map<Topic, number>();
+  #maximum = 0;
+
+  /**
+   * Creates a new LRUTopicAliasPolicy.
+   * @param options - Optional configuration
+   * @param options.maximum - Upper limit for the number of aliases, the limit of the server is used if it is lower
+   */
+  constructor(readonly options?: { maximum?: number }) {}
+
+  reset(maximum: number) {
+    this.#aliases.clear();
+    this.#maximum = Math.min(maximum, this.options?.maximum ?? maximum);
+  }
+
+  get(topic: Topic): { alias: number; known: boolean } | undefined {
+    if (this.#maximum === 0) {
+      return undefined;
+    }
+    let alias = this.#aliases.get(topic);
+    if (alias !== undefined) {
+      this.#aliases.delete(topic);
+      this.#aliases.set(topic, alias);
+      return { alias, known: true };
+    }
+    if (this.#aliases.size < this.#maximum) {
+      alias = this.#aliases.size + 1;
+    } else {
+      const [leastRecentlyUsed, oldAlias] = this.#aliases.entries().next()
+        .value!;
+      this.#aliases.delete(leastRecentlyUsed);
+      alias = oldAlias;
+    }
+    this.#aliases.set(topic, alias);
+    return { alias, known: false };
+  }
+}
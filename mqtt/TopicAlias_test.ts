@@ -0,0 +1,99 @@
+/**
+ * Copyright 2023-2026 Bernd Amend. MIT license.
+ */
+import { assertEquals, assertRejects } from "@std/assert";
+import * as m from "./mod.ts";
+
+Deno.test("LRUTopicAliasPolicy reassigns the least recently used alias", () => {
+  const policy = new m.LRUTopicAliasPolicy();
+  const a = m.asTopic("a");
+  const b = m.asTopic("b");
+  const c = m.asTopic("c");
+
+  assertEquals(policy.get(a), undefined); // reset wasn't called yet
+
+  policy.reset(2);
+  assertEquals(policy.get(a), { alias: 1, known: false });
+  assertEquals(policy.get(b), { alias: 2, known: false });
+  assertEquals(policy.get(a), { alias: 1, known: true });
+  assertEquals(policy.get(c), { alias: 2, known: false });
+  assertEquals(policy.get(a), { alias: 1, known: true });
+  assertEquals(policy.get(b), { alias: 2, known: false });
+
+  policy.reset(2);
+  assertEquals(policy.get(b), { alias: 1, known: false });
+});
+
+Deno.test("LRUTopicAliasPolicy respects the configured maximum", () => {
+  const policy = new m.LRUTopicAliasPolicy({ maximum: 1 });
+  policy.reset(10);
+  assertEquals(policy.get(m.asTopic("a")), { alias: 1, known: false });
+  assertEquals(policy.get(m.asTopic("b")), { alias: 1, known: false });
+
+  const disabled = new m.LRUTopicAliasPolicy({ maximum: 0 });
+  disabled.reset(10);
+  assertEquals(disabled.get(m.asTopic("a")), undefined);
+});
+
+Deno.test("DeserializeStream resolves received topic aliases", async () => {
+  const w = new m.Writer();
+  const publish = (topic: string, topic_alias: number) =>
+    m.serializePublishPacket({
+      topic: topic as m.Topic,
+      payload: topic,
+      properties: { topic_alias },
+    }, w);
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      controller.enqueue(publish("foo/bar", 1));
+      controller.enqueue(publish("", 1));
+      controller.enqueue(publish("baz", 1));
+      controller.enqueue(publish("", 1));
+      controller.close();
+    },
+  });
+
+  const result = await Array.fromAsync(
+    stream.pipeThrough(
+      new TransformStream(new m.DeserializeStream({ topicAliasMaximum: 1 })),
+    ),
+  );
+  assertEquals(
+    result.map((p) =>
+      p.type === m.ControlPacketType.Publish ? p.topic as string : undefined
+    ),
+    ["foo/bar", "foo/bar", "baz", "baz"],
+  );
+});
+
+Deno.test("DeserializeStream rejects invalid topic aliases", async () => {
+  const w = new m.Writer();
+  for (
+    const [topic, topic_alias] of [["foo", 3], ["", 1]] as [string, number][]
+  ) {
+    const stream = new ReadableStream<Uint8Array>({
+      start(controller) {
+        controller.enqueue(
+          m.serializePublishPacket({
+            topic: topic as m.Topic,
+            properties: { topic_alias },
+          }, w),
+        );
+        controller.close();
+      },
+    });
+    const err = await assertRejects(() =>
+      Array.fromAsync(
+        stream.pipeThrough(
+          new TransformStream(
+            new m.DeserializeStream({ topicAliasMaximum: 2 }),
+          ),
+        ),
+      )
+    );
+    assertEquals(
+      (err as m.MqttProtocolError).reason_code,
+      m.DisconnectReasonCode.Topic_Alias_invalid,
+    );
+  }
+});
@@ -0,0 +1,208 @@
+/**
+ * MQTT topic filter matching.
+ *
+ * @module
+ * @license MIT
+ * @copyright 2023-2026 Bernd Amend
+ */
+import type { Topic, TopicFilter } from "./packets.ts";
+
+/**
+ * Splits a shared subscription into the share name and the topic filter that is matched against the topics.
+ * 4.8.2 https://docs.oasis-open.org/mqtt/mqtt/v5.0/os/mqtt-v5.0-os.html#_Toc3901250
+ * @param filter - The topic filter, e.g. $share/group/sensors/+
+ * @returns the share name and the topic filter, the share name is undefined if the filter isn't a shared subscription
+ */
+export function parseSharedSubscription(
+  filter: TopicFilter,
+): { shareName?: string; filter: TopicFilter } {
+  if (!filter.startsWith("$share/")) {
+    return { filter };
+  }
+  const end = filter.indexOf("/", "$share/".length);
+  if (end === -1) {
+    return { filter };
+  }
+  return {
+    shareName: filter.substring("$share/".length, end),
+    filter: filter.substring(end + 1) as TopicFilter,
+  };
+}
+
+/**
+ * Checks if the topic matches the topic filter.
+ * Topics starting with $ are not matched by filters starting with a wildcard
+ * and shared subscriptions are matched by their topic filter.
+ * 4.7 https://docs.oasis-open.org/mqtt/mqtt/v5.0/os/mqtt-v5.0-os.html#_Toc3901241
+ * @param topic - The topic of a publish
+ * @param filter - The topic filter of a subscription
+ * @returns true if the topic matches the filter
+ */
+export function topicMatchesFilter(topic: Topic, filter: TopicFilter): boolean {
+  const filterLevels = parseSharedSubscription(filter).filter.split("/");
+  const topicLevels = topic.split("/");
+
+  // 4.7.2 topics starting with $ are not matched by a filter starting with a wildcard
+  if (
+    topic.startsWith("$") &&
+    (filterLevels[0] === "#" || filterLevels[0] === "+")
+  ) {
+    return false;
+  }
+
+  for (let i = 0; i < filterLevels.length; ++i) {
+    const level = filterLevels[i];
+    if (level === "#") {
+      // "sport/#" also matches "sport"
+      return true;
+    }
+    if (i >= topicLevels.length) {
+      return false;
+    }
+    if (level !== "+" && level !== topicLevels[i]) {
+      return false;
+    }
+  }
+  return filterLevels.length === topicLevels.length;
+}
+
+type Node<T> = {
+  children: Map<string, Node<T>>;
+  /** The values registered for the filter ending at this node and how often they were added. */
+  values: Map<T, number>;
+};
+
+/**
+ * A trie of topic filters that finds all values whose filter matches a topic.
+ * The lookup only visits the levels of the topic and the wildcard branches,
+ * so it stays fast independent of the number of registered filters.
+ * @example
+ * ```ts
+ * const tree = new SubscriptionTree<string>();
+ * tree.add(asTopicFilter("sensors/+/temperature"), "a");
+ * tree.add(asTopicFilter("sensors/#"), "b");
+ * tree.match(asTopic("sensors/kitchen/temperature")); // Set {"a", "b"}
+ * ```
+ */
+export class SubscriptionTree<T> {
+  #root: Node<T> = { children: new Map(), values: new Map() };
+  #size = 0;
+
+  /** The number of registered filter/value pairs. */
+  get size(): number {
+    return this.#size;
+  }
+
+  /**
+   * Registers a value for a topic filter.
+   * Adding the same pair multiple times requires the same number of delete calls.
+   * @param filter - The topic filter, shared subscriptions are registered with their topic filter
+   * @param value - The value returned by match
+   */
+  add(filter: TopicFilter, value: T) {
+    let node = this.#root;
+    for (const level of parseSharedSubscription(filter).filter.split("/")) {
+      let child = node.children.get(level);
+      if (child === undefined) {
+        child = { children: new Map(), values: new Map() };
+        node.children.set(level, child);
+      }
+      node = child;
+    }
+    node.values.set(value, (node.values.get(value) ?? 0) + 1);
+    ++this.#size;
+  }
+
+  /**
+   * Removes a value registered with add.
+   * @param filter - The topic filter used for add
+   * @param value - The value used for add
+   * @returns false if the pair wasn't registered
+   */
+  delete(filter: TopicFilter, value: T): boolean {
+    const path: [Node<T>, string][] = [];
+    let node = this.#root;
+    for (const level of parseSharedSubscription(filter).filter.split("/")) {
+      const child = node.children.get(level);
+      if (child === undefined) {
+        return false;
+      }
+      path.push([node, level]);
+      node = child;
+    }
+    const count = node.values.get(value);
+    if (count === undefined) {
+      return false;
+    }
+    if (count === 1) {
+      node.values.delete(value);
+    } else {
+      node.values.set(value, count - 1);
+    }
+    --this.#size;
+
+    // remove the nodes that became empty
+    for (let i = path.length - 1; i >= 0; --i) {
+      const [parent, level] = path[i]!;
+      const child = parent.children.get(level)!;
+      if (child.values.size !== 0 || child.children.size !== 0) {
+        break;
+      }
+      parent.children.delete(level);
+    }
+    return true;
+  }
+
+  /**
+   * Finds the values of all filters matching the topic.
+   * @param topic - The topic of a publish
+   * @returns the matching values, each value is only contained once
+   */
+  match(topic: Topic): Set<T> {
+    const result = new Set<T>();
+    const levels = topic.split("/");
+    // 4.7.2 topics starting with $ are not matched by a filter starting with a wildcard
+    this.#match(this.#root, levels, 0, !topic.startsWith("$"), result);
+    return result;
+  }
+
+  /** Removes all registered values. */
+  clear() {
+    this.#root = { children: new Map(), values: new Map() };
+    this.#size = 0;
+  }
+
+  #match(
+    node: Node<T>,
+    levels: string[],
+    index: number,
+    wildcards: boolean,
+    result: Set<T>,
+  ) {
+    if (wildcards) {
+      // "sport/#" also matches "sport"
+      const multiLevel = node.children.get("#");
+      if (multiLevel) {
+        for (const value of multiLevel.values.keys()) {
+          result.add(value);
+        }
+      }
+    }
+    if (index === levels.length) {
+      for (const value of node.values.keys()) {
+        result.add(value);
+      }
+      return;
+    }
+    const child = node.children.get(levels[index]!);
+    if (child) {
+      this.#match(child, levels, index + 1, true, result);
+    }
+    if (wildcards) {
+      const singleLevel = node.children.get("+");
+      if (singleLevel) {
+        this.#match(singleLevel, levels, index + 1, true, result);
+      }
+    }
+  }
+}
@@ -0,0 +1,100 @@
+/**
+ * Copyright 2023-2026 Bernd Amend. MIT license.
+ */
+import { assertEquals } from "@std/assert";
+import * as m from "./mod.ts";
+
+const cases: [string, string, boolean][] = [
+  ["sport/tennis/player1/#", "sport/tennis/player1", true],
+  ["sport/tennis/player1/#", "sport/tennis/player1/ranking", true],
+  ["sport/tennis/player1/#", "sport/tennis/player1/score/wimbledon", true],
+  ["sport/#", "sport", true],
+  ["sport/tennis/+", "sport/tennis/player1", true],
+  ["sport/tennis/+", "sport/tennis/player1/ranking", false],
+  ["sport/+", "sport", false],
+  ["sport/+", "sport/", true],
+  ["+/+", "/finance", true],
+  ["/+", "/finance", true],
+  ["+", "/finance", false],
+  ["#", "$SYS/monitor/Clients", false],
+  ["+/monitor/Clients", "$SYS/monitor/Clients", false],
+  ["$SYS/#", "$SYS/monitor/Clients", true],
+  ["$SYS/monitor/+", "$SYS/monitor/Clients", true],
+  ["$share/group/sport/+", "sport/tennis", true],
+  ["$share/group/#", "group/sport", true],
+  ["$share/group/sport", "group/sport", false],
+];
+
+Deno.test("topicMatchesFilter", () => {
+  for (const [filter, topic, expected] of cases) {
+    assertEquals(
+      m.topicMatchesFilter(topic as m.Topic, filter as m.TopicFilter),
+      expected,
+      `${filter} ${topic}`,
+    );
+  }
+});
+
+Deno.test("parseSharedSubscription", () => {
+  assertEquals(
+    m.parseSharedSubscription(m.asTopicFilter("$share/group/sport/+")),
+    { shareName: "group", filter: m.asTopicFilter("sport/+") },
+  );
+  assertEquals(
+    m.parseSharedSubscription(m.asTopicFilter("sport/+")),
+    { filter: m.asTopicFilter("sport/+") },
+  );
+});
+
+Deno.test("SubscriptionTree matches like topicMatchesFilter", () => {
+  const tree = new m.SubscriptionTree<number>();
+  cases.forEach(([filter], i) => tree.add(filter as m.TopicFilter, i));
+  assertEquals(tree.size, cases.length);
+
+  for (const [, topic] of cases) {
+    const expected = cases.flatMap(([filter], i) =>
+      m.topicMatchesFilter(topic as m.Topic, filter as m.TopicFilter) ? [i] : []
+    );
+    assertEquals(
+      [...tree.match(topic as m.Topic)].sort((a, b) => a - b),
+      expected,
+      topic,
+    );
+  }
+});
+
+Deno.test("SubscriptionTree add and delete", () => {
+  const tree = new m.SubscriptionTree<string>();
+  const filter = m.asTopicFilter("a/+/c");
+  const topic = m.asTopic("a/b/c");
+
+  tree.add(filter, "x");
+  tree.add(filter, "x");
+  tree.add(m.asTopicFilter("a/#"), "x");
+  tree.add(filter, "y");
+  assertEquals(tree.match(topic), new Set(["x", "y"]));
+
+  assertEquals(tree.delete(filter, "y"), true);
+  assertEquals(tree.delete(filter, "y"), false);
+  assertEquals(tree.delete(m.asTopicFilter("a/b/c"), "x"), false);
+  assertEquals(tree.match(topic), new Set(["x"]));
+
+  assertEquals(tree.delete(filter, "x"), true);
+  assertEquals(tree.delete(m.asTopicFilter("a/#"), "x"), true);
+  assertEquals(tree.match(topic), new Set(["x"]));
+  assertEquals(tree.delete(filter, "x"), true);
+  assertEquals(tree.match(topic), new Set());
+  assertEquals(tree.size, 0);
+});
+
+Deno.test("SubscriptionTree with many filters", () => {
+  const tree = new m.SubscriptionTree<number>();
+  for (let i = 0; i < 10000; ++i) {
+    tree.add(m.asTopicFilter(`devices/${i}/+/state`), i);
+  }
+  tree.add(m.asTopicFilter("devices/+/sensor/#"), -1);
+  assertEquals(
+    tree.match(m.asTopic("devices/42/sensor/state")),
+    new Set([42, -1]),
+  );
+});
@@ -0,0 +1,130 @@
+/**
+ * Registry of the transports used by connectLowLevel, e.g. TCP, TLS or WebSockets.
+ *
+ * @module
+ * @license MIT
+ * @copyright 2023-2026 Bernd Amend
+ */
+import { streamifyWebSocket } from "../helper/websocket.ts";
+import { connectLoopback } from "./Loopback.ts";
+
+/** The byte streams of an established connection to an MQTT server. */
+export type Transport = {
+  readable: ReadableStream<Uint8Array<ArrayBuffer>>;
+  writable: WritableStream<Uint8Array>;
+};
+
+/**
+ * Establishes a connection to the address, e.g. a serial-port bridge, an SSH tunnel or a test double.
+ * @param address the address of the server, its protocol selected the factory
+ * @returns the byte streams of the connection
+ * @throws if the connection can't be established, the client treats it as a failed connection attempt
+ */
+export type TransportFactory = (
+  address: URL,
+) => Transport | Promise<Transport>;
+
+const transports = new Map<string, TransportFactory>();
+
+/**
+ * Normalizes "mqtt" and "mqtt:" to "mqtt:", the format of URL.protocol.
+ */
+function normalizeProtocol(protocol: string): string {
+  protocol = protocol.toLowerCase();
+  return protocol.endsWith(":") ? protocol : `${protocol}:`;
+}
+
+/**
+ * Registers the factory for the protocol, replacing a previously registered one including the built-in transports.
+ * @example
+ * ```ts
+ * registerTransport("serial", (address) => openSerialBridge(address.pathname));
+ * const client = new Client("serial:///dev/ttyUSB0");
+ * ```
+ * @param protocol the URL scheme, e.g. "serial" or "serial:"
+ * @param factory establishes the connections
+ */
+export function registerTransport(protocol: string, factory: TransportFactory) {
+  transports.set(normalizeProtocol(protocol), factory);
+}
+
+/**
+ * Removes the factory of the protocol.
+ * @param protocol the URL scheme, e.g. "serial" or "serial:"
+ * @returns false if no factory was registered
+ */
+export function unregisterTransport(protocol: string): boolean {
+  return transports.delete(normalizeProtocol(protocol));
+}
+
+/**
+ * Looks up the factory of the protocol.
+ * @param protocol the URL scheme, e.g. "mqtt" or "mqtt:"
+ * @returns the factory or undefined if the protocol isn't supported
+ */
+export function transportFactory(
+  protocol: string,
+): TransportFactory | undefined {
+  return transports.get(normalizeProtocol(protocol));
+}
+
+/**
+ * Connects with the factory registered for the protocol of the address.
+ * @param address the address of the server
+ * @returns the byte streams of the connection
+ * @throws if no factory is registered for the protocol or the connection failed
+ */
+export async function connectTransport(address: URL): Promise<Transport> {
+  const factory = transportFactory(address.protocol);
+  if (factory === undefined) {
+    throw new Error(`Unsupported protocol ${address.protocol}`);
+  }
+  return await factory(address);
+}
+
+async function connectWebSocket(address: URL): Promise<Transport> {
+  if (typeof WebSocketStream === "undefined") {
+    return streamifyWebSocket(address.toString(), "mqtt");
+  }
+  const wss = new WebSocketStream(address.toString(), {
+    protocols: ["mqtt"],
+  });
+  const conn = await wss.opened;
+  return {
+    // MQTT is only sent in binary messages
+    readable: conn.readable as ReadableStream<Uint8Array<ArrayBuffer>>,
+    writable: conn.writable,
+  };
+}
+
+registerTransport("ws", connectWebSocket);
+registerTransport("wss", connectWebSocket);
+registerTransport("memory", (address) => connectLoopback(address.hostname));
+
+if (typeof Deno !== "undefined") {
+  const connectTcp = async (address: URL): Promise<Transport> => {
+    const conn = await Deno.connect({
+      hostname: address.hostname,
+      port: address.port === "" ? 1883 : Number.parseInt(address.port),
+      transport: "tcp",
+    });
+    conn.setNoDelay(true);
+    return conn;
+  };
+  registerTransport("tcp", connectTcp);
+  registerTransport("mqtt", connectTcp);
+
+  const connectTls = (address: URL): Promise<Transport> =>
+    Deno.connectTls({
+      hostname: address.hostname,
+      port: address.port === "" ? 8883 : Number.parseInt(address.port),
+    });
+  registerTransport("tls", connectTls);
+  registerTransport("mqtts", connectTls);
+
+  registerTransport("unix", (address) =>
+    Deno.connect({
+      path: address.pathname,
+      transport: "unix",
+    }));
+}
@@ -0,0 +1,50 @@
+/**
+ * Copyright 2023-2026 Bernd Amend. MIT license.
+ */
+import { assert, assertEquals, assertRejects } from "@std/assert";
+import * as m from "./mod.ts";
+
+Deno.test("the built-in transports are registered", async () => {
+  for (const protocol of ["ws", "wss", "memory:", "MQTT", "tcp", "unix"]) {
+    assert(m.transportFactory(protocol), protocol);
+  }
+  await assertRejects(
+    () => m.connectLowLevel("serial:///dev/ttyUSB0"),
+    Error,
+    "Unsupported protocol serial:",
+  );
+});
+
+Deno.test("connectLowLevel uses registered transports", async () => {
+  await using broker = new m.Broker();
+  const addresses: string[] = [];
+  m.registerTransport("test", (address) => {
+    addresses.push(address.toString());
+    const [client, peer] = m.createLoopbackPair();
+    broker.handleConnection(peer);
+    return client;
+  });
+  try {
+    await using client = new m.Client("test://broker/a", {});
+    await client.waitForConnected({ timeout: 1000 as m.Milliseconds });
+    assertEquals(addresses, ["test://broker/a"]);
+  } finally {
+    assert(m.unregisterTransport("test:"));
+  }
+  assert(!m.unregisterTransport("test"));
+});
+
+Deno.test("Client uses the transport of its properties", async () => {
+  await using broker = new m.Broker();
+  const addresses: string[] = [];
+  await using client = new m.Client("mqtt://unreachable", {}, {
+    transport: (address) => {
+      addresses.push(address.toString());
+      const [client, peer] = m.createLoopbackPair();
+      broker.handleConnection(peer);
+      return client;
+    },
+  });
+  await client.waitForConnected({ timeout: 1000 as m.Milliseconds });
+  assertEquals(addresses, ["mqtt://unreachable"]);
+});
@@ -1,5 +1,5 @@
 /**
- * MQTT 5.0 packet deserialization utilities.
+ * MQTT 5.0 and 3.1.1 packet deserialization utilities.
  *
  * @module
  * @license MIT
@@ -15,11 +15,14 @@ import {
   type ClientID,
   type ConnAckPacket,
   type ConnectPacket,
+  ConnectReasonCode,
+  ConnectReturnCode,
   ControlPacketType,
   type DisconnectPacket,
   type FixedHeader,
   type PacketIdentifier,
   Property,
+  ProtocolVersion,
   type PubAckPacket,
   type PubCompPacket,
   type PublishPacket,
@@ -35,6 +38,7 @@ import {
   type UnsubAckPacket,
   type UnsubscribePacket,
 } from "./packets.ts";
+import { MalformedPacketError, MqttError } from "./errors.ts";
 
 function readVariableByteInteger(reader: DataReader): number;
 function readVariableByteInteger(
@@ -64,7 +68,7 @@ function readVariableByteInteger(
     value += (encodedByte & 127) * multiplier;
 
     if (multiplier > maxMultiplier) {
-      throw new Error("Malformed Variable Byte Integer");
+      throw new MalformedPacketError("Malformed Variable Byte Integer");
     }
 
     multiplier *= 128;
@@ -267,18 +271,26 @@ function deserializeConnectPacket(
   // 3.2.2.1 Connect Acknowledge Flags https://docs.oasis-open.org/mqtt/mqtt/v5.0/os/mqtt-v5.0-os.html#_Toc3901077
   const protocol_name = readUTF8String(r);
   if (protocol_name !== "MQTT") {
-    throw new Error(`received the invalid protocol_name '${protocol_name}'`);
+    throw new MalformedPacketError(
+      `received the invalid protocol_name '${protocol_name}'`,
+      ControlPacketType.Connect,
+    );
   }
 
   const protocol_version = r.getUint8();
-  if (protocol_version !== 5) {
-    throw new Error(
+  if (
+    protocol_version !== ProtocolVersion.MQTT_5 &&
+    protocol_version !== ProtocolVersion.MQTT_3_1_1
+  ) {
+    throw new MalformedPacketError(
       `received the invalid protocol_version '${protocol_version}'`,
+      ControlPacketType.Connect,
     );
   }
+  const mqtt5 = protocol_version === ProtocolVersion.MQTT_5;
 
   ret.protocol_name = "MQTT";
-  ret.protocol_version = 5;
+  ret.protocol_version = protocol_version;
 
   const connectFlags = r.getUint8();
 
@@ -291,7 +303,7 @@ function deserializeConnectPacket(
 
   ret.keepalive = r.getUint16() as Seconds;
 
-  const props = readProperties(r);
+  const props = mqtt5 ? readProperties(r) : undefined;
   if (props !== undefined) {
     ret.properties = props;
   }
@@ -300,7 +312,7 @@ function deserializeConnectPacket(
   ret.client_id = readUTF8String(r) as ClientID;
 
   if (willFlag) {
-    const willProps = readProperties(r);
+    const willProps = mqtt5 ? readProperties(r) : undefined;
 
     const topic = readUTF8String(r);
 
@@ -344,11 +356,13 @@ function deserializeConnectPacket(
 
 /**
  * 3.2 Deserializes a CONNACK packet.
+ * The return code of a MQTT 3.1.1 CONNACK packet is mapped to the ConnectReasonCode.
  * @see {@link https://docs.oasis-open.org/mqtt/mqtt/v5.0/os/mqtt-v5.0-os.html#_Toc3901074}
  */
 function deserializeConnAckPacket(
   _fixedHeader: FixedHeader,
   r: DataReader,
+  protocolVersion: ProtocolVersion,
 ): ConnAckPacket {
   const ret: ConnAckPacket = {
     type: ControlPacketType.ConnAck,
@@ -356,6 +370,10 @@ function deserializeConnAckPacket(
 
   // 3.2.2.1 Connect Acknowledge Flags https://docs.oasis-open.org/mqtt/mqtt/v5.0/os/mqtt-v5.0-os.html#_Toc3901077
   ret.session_present = r.getUint8() === 1;
+  if (protocolVersion === ProtocolVersion.MQTT_3_1_1) {
+    ret.connect_reason_code = connectReasonCode(r.getUint8());
+    return ret;
+  }
   ret.connect_reason_code = r.getUint8();
 
   const props = readProperties(r);
@@ -373,18 +391,48 @@ function deserializeConnAckPacket(
   return ret;
 }
 
+/**
+ * MQTT 3.1.1 3.2.2.3 Maps a CONNACK return code to the reason code with the same meaning.
+ * @throws {MalformedPacketError} if the return code is reserved
+ */
+function connectReasonCode(return_code: number): ConnectReasonCode {
+  switch (return_code) {
+    case ConnectReturnCode.Connection_Accepted:
+      return ConnectReasonCode.Success;
+    case ConnectReturnCode.Unacceptable_protocol_version:
+      return ConnectReasonCode.Unsupported_Protocol_Version;
+    case ConnectReturnCode.Identifier_rejected:
+      return ConnectReasonCode.Client_Identifier_not_valid;
+    case ConnectReturnCode.Server_unavailable:
+      return ConnectReasonCode.Server_unavailable;
+    case ConnectReturnCode.Bad_user_name_or_password:
+      return ConnectReasonCode.Bad_User_Name_or_Password;
+    case ConnectReturnCode.Not_authorized:
+      return ConnectReasonCode.Not_authorized;
+  }
+  throw new MalformedPacketError(
+    `received the reserved CONNACK return code ${return_code}`,
+    ControlPacketType.ConnAck,
+  );
+}
+
 /**
  * 3.3 Deserializes a PUBLISH packet.
+ * If the packet uses a topic alias without a topic, the topic is empty and has to be resolved by the caller,
+ * e.g. the DeserializeStream.
  * @see {@link https://docs.oasis-open.org/mqtt/mqtt/v5.0/os/mqtt-v5.0-os.html#_Toc3901100}
  */
 function deserializePublishPacket(
   fixedHeader: FixedHeader,
   r: DataReader,
-  options?: PublishDeserializeOptions,
+  options: PublishDeserializeOptions | undefined,
+  protocolVersion: ProtocolVersion,
 ): PublishPacket {
+  const topic = readUTF8String(r);
   const ret: PublishPacket = {
     type: ControlPacketType.Publish,
-    topic: asTopic(readUTF8String(r)),
+    // 3.3.2.3.4 an empty topic is only allowed together with a topic alias, see below
+    topic: topic as Topic,
   };
 
   if (fixedHeader.flags & 0b1000) {
@@ -401,11 +449,17 @@ function deserializePublishPacket(
     ret.packet_identifier = r.getUint16() as PacketIdentifier;
   }
 
-  const props = readProperties(r, options);
+  const props = protocolVersion === ProtocolVersion.MQTT_5
+    ? readProperties(r, options)
+    : undefined;
   if (props !== undefined) {
     ret.properties = props;
   }
 
+  if (topic !== "" || props?.topic_alias === undefined) {
+    ret.topic = asTopic(topic);
+  }
+
   const remainingSize = r.remainingSize;
   if (remainingSize > 0) {
     switch (options ?? PublishDeserializeOptions.PayloadFormatIndicator) {
@@ -491,8 +545,9 @@ function deserializePubRelPacket(
   r: DataReader,
 ): PubRelPacket {
   if (fixedHeader.flags !== 0b0010) {
-    throw new Error(
+    throw new MalformedPacketError(
       `Invalid flags for PubRel packet: ${fixedHeader.flags}, expected 0b0010`,
+      fixedHeader.type,
     );
   }
   const ret: PubRelPacket = {
@@ -538,10 +593,12 @@ function deserializePubCompPacket(
 function deserializeSubscribePacket(
   fixedHeader: FixedHeader,
   r: DataReader,
+  protocolVersion: ProtocolVersion,
 ): SubscribePacket {
   if (fixedHeader.flags !== 0b0010) {
-    throw new Error(
+    throw new MalformedPacketError(
       `Invalid flags for Subscribe packet: ${fixedHeader.flags}, expected 0b0010`,
+      fixedHeader.type,
     );
   }
 
@@ -551,7 +608,9 @@ function deserializeSubscribePacket(
     subscriptions: [],
   };
 
-  const props = readProperties(r);
+  const props = protocolVersion === ProtocolVersion.MQTT_5
+    ? readProperties(r)
+    : undefined;
   if (props?.subscription_identifier !== undefined) {
     ret.properties ??= {};
     ret.properties.subscription_identifier = props.subscription_identifier[0];
@@ -605,6 +664,7 @@ function deserializeSubscribePacket(
 function deserializeSubAckPacket(
   _fixedHeader: FixedHeader,
   r: DataReader,
+  protocolVersion: ProtocolVersion,
 ): SubAckPacket {
   const ret: SubAckPacket = {
     type: ControlPacketType.SubAck,
@@ -612,7 +672,9 @@ function deserializeSubAckPacket(
     reason_codes: [],
   };
 
-  const props = readProperties(r);
+  const props = protocolVersion === ProtocolVersion.MQTT_5
+    ? readProperties(r)
+    : undefined;
   if (props !== undefined) {
     ret.properties = props;
   }
@@ -631,6 +693,7 @@ function deserializeSubAckPacket(
 function deserializeUnsubscribePacket(
   _fixedHeader: FixedHeader,
   r: DataReader,
+  protocolVersion: ProtocolVersion,
 ): UnsubscribePacket {
   const ret: UnsubscribePacket = {
     type: ControlPacketType.Unsubscribe,
@@ -638,7 +701,9 @@ function deserializeUnsubscribePacket(
     topic_filters: [],
   };
 
-  const props = readProperties(r);
+  const props = protocolVersion === ProtocolVersion.MQTT_5
+    ? readProperties(r)
+    : undefined;
   if (props !== undefined) {
     ret.properties = props;
   }
@@ -729,27 +794,58 @@ export function deserializeAuthPacket(
 }
 /**
  * Deserializes any MQTT packet from binary data.
+ * A CONNECT packet is deserialized with the protocol_version it contains.
  * @param fixedHeader - The packet's fixed header
  * @param reader - The data reader positioned after the fixed header
  * @param options - Optional payload deserialization options for PUBLISH packets
+ * @param protocolVersion - The protocol version of the connection, defaults to MQTT 5
  * @returns The deserialized packet
- * @throws If the packet type is not implemented or invalid
+ * @throws {MalformedPacketError} If the packet type is not implemented or the packet is invalid
  */
 export function deserializePacket(
   fixedHeader: FixedHeader,
   reader: DataReader,
   options?: PublishDeserializeOptions,
+  protocolVersion: ProtocolVersion = ProtocolVersion.MQTT_5,
 ): AllPacket {
   const r = reader.getDataReader(fixedHeader.length);
+  try {
+    return deserializePacketContent(fixedHeader, r, options, protocolVersion);
+  } catch (e: unknown) {
+    if (e instanceof MqttError) {
+      throw e;
+    }
+    // e.g. reading beyond the end of the packet
+    throw new MalformedPacketError(
+      `Couldn't deserialize the ${
+        ControlPacketType[fixedHeader.type]
+      } packet: ${e}`,
+      fixedHeader.type,
+      { cause: e },
+    );
+  }
+}
+
+function deserializePacketContent(
+  fixedHeader: FixedHeader,
+  r: DataReader,
+  options: PublishDeserializeOptions | undefined,
+  protocolVersion: ProtocolVersion,
+): AllPacket {
   switch (fixedHeader.type) {
     case ControlPacketType.Reserved:
       break;
     case ControlPacketType.Connect:
       return deserializeConnectPacket(fixedHeader, r);
     case ControlPacketType.ConnAck:
-      return deserializeConnAckPacket(fixedHeader, r);
+      return deserializeConnAckPacket(fixedHeader, r, protocolVersion);
     case ControlPacketType.Publish:
-      return deserializePublishPacket(fixedHeader, r, options);
+      return deserializePublishPacket(
+        fixedHeader,
+        r,
+        options,
+        protocolVersion,
+      );
     case ControlPacketType.PubAck:
       return deserializePubAckPacket(fixedHeader, r);
     case ControlPacketType.PubRec:
@@ -759,11 +855,11 @@ export function deserializePacket(
     case ControlPacketType.PubComp:
       return deserializePubCompPacket(fixedHeader, r);
     case ControlPacketType.Subscribe:
-      return deserializeSubscribePacket(fixedHeader, r);
+      return deserializeSubscribePacket(fixedHeader, r, protocolVersion);
     case ControlPacketType.SubAck:
-      return deserializeSubAckPacket(fixedHeader, r);
+      return deserializeSubAckPacket(fixedHeader, r, protocolVersion);
     case ControlPacketType.Unsubscribe:
-      return deserializeUnsubscribePacket(fixedHeader, r);
+      return deserializeUnsubscribePacket(fixedHeader, r, protocolVersion);
     case ControlPacketType.UnsubAck:
       return deserializeUnsubAckPacket(fixedHeader, r);
     case ControlPacketType.PingResp:
@@ -772,7 +868,17 @@ export function deserializePacket(
     case ControlPacketType.Disconnect:
       return deserializeDisconnectPacket(fixedHeader, r);
     case ControlPacketType.Auth:
+      if (protocolVersion === ProtocolVersion.MQTT_3_1_1) {
+        // MQTT 3.1.1 2.2.1 the packet type 15 is reserved
+        throw new MalformedPacketError(
+          "AUTH packets are not allowed in MQTT 3.1.1",
+          fixedHeader.type,
+        );
+      }
       return deserializeAuthPacket(fixedHeader, r);
   }
-  throw new Error(`not implemented yet ${ControlPacketType[fixedHeader.type]}`);
+  throw new MalformedPacketError(
+    `not implemented yet ${ControlPacketType[fixedHeader.type]}`,
+    fixedHeader.type,
+  );
 }
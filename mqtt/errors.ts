@@ -0,0 +1,372 @@
+/**
+ * Errors of the MQTT implementation.
+ * The errors carry the reason codes and properties reported by the server or sent to it,
+ * so they can be distinguished without parsing the message.
+ *
+ * @module
+ * @license MIT
+ * @copyright 2023-2026 Bernd Amend
+ */
+import {
+  type ConnAckPacket,
+  ConnectReasonCode,
+  ControlPacketType,
+  type DisconnectPacket,
+  DisconnectReasonCode,
+  type PubAckPacket,
+  PubAckReasonCode,
+  type PubCompPacket,
+  PubCompReasonCode,
+  type PubRecPacket,
+  PubRecReasonCode,
+  type SubAckPacket,
+  SubAckReasonCode,
+  type TopicFilter,
+  type UserProperty,
+} from "./packets.ts";
+import type { ServerCapabilities } from "./ServerCapabilities.ts";
+
+/**
+ * Base class of all errors of the MQTT implementation.
+ */
+export class MqttError extends Error {
+  /** The reason_string of the packet that reported the error. */
+  readonly reason_string?: string;
+  /** The user_properties of the packet that reported the error. */
+  readonly user_properties?: UserProperty[];
+
+  /**
+   * Creates a new MqttError.
+   * @param message - Describes the error
+   * @param options - Optional details
+   * @param options.reason_string - The reason_string of the packet that reported the error
+   * @param options.user_properties - The user_properties of the packet that reported the error
+   * @param options.cause - The original error
+   */
+  constructor(
+    message: string,
+    options?: {
+      reason_string?: string;
+      user_properties?: UserProperty[];
+      cause?: unknown;
+    },
+  ) {
+    super(
+      message,
+      options?.cause === undefined ? undefined : { cause: options.cause },
+    );
+    this.name = "MqttError";
+    this.reason_string = options?.reason_string;
+    this.user_properties = options?.user_properties;
+  }
+}
+
+function withReasonString(message: string, reason_string?: string): string {
+  return reason_string ? `${message}: ${reason_string}` : message;
+}
+
+/**
+ * A packet violates the protocol.
+ * If it was received, the receiver is expected to close the connection with a DISCONNECT using the reason_code.
+ * 4.13 https://docs.oasis-open.org/mqtt/mqtt/v5.0/os/mqtt-v5.0-os.html#_Toc3901205
+ */
+export class MqttProtocolError extends MqttError {
+  /** The type of the offending packet, if it is known. */
+  readonly packet_type?: ControlPacketType;
+  /** The offending packet including the fixed header, if the packet was received. */
+  readonly bytes?: Uint8Array;
+
+  /**
+   * Creates a new MqttProtocolError.
+   * @param message - Describes the violation, can be sent as reason_string
+   * @param reason_code - The reason code for the DISCONNECT packet
+   * @param options - Optional details, see MqttError
+   * @param options.packet_type - The type of the offending packet
+   * @param options.bytes - The offending packet including the fixed header
+   */
+  constructor(
+    message: string,
+    readonly reason_code: DisconnectReasonCode =
+      DisconnectReasonCode.Protocol_Error,
+    options?: ConstructorParameters<typeof MqttError>[1] & {
+      packet_type?: ControlPacketType;
+      bytes?: Uint8Array;
+    },
+  ) {
+    super(message, options);
+    this.name = "MqttProtocolError";
+    this.packet_type = options?.packet_type;
+    this.bytes = options?.bytes;
+  }
+}
+
+/**
+ * A packet can't be encoded or decoded, e.g. an invalid variable byte integer or invalid flags.
+ * 4.13.1 https://docs.oasis-open.org/mqtt/mqtt/v5.0/os/mqtt-v5.0-os.html#_Toc3901206
+ */
+export class MalformedPacketError extends MqttProtocolError {
+  /**
+   * Creates a new MalformedPacketError.
+   * @param message - Describes the problem
+   * @param packet_type - The type of the affected packet, if it is known
+   * @param options - Optional details, see MqttProtocolError
+   */
+  constructor(
+    message: string,
+    packet_type?: ControlPacketType,
+    options?: ConstructorParameters<typeof MqttProtocolError>[2],
+  ) {
+    super(message, DisconnectReasonCode.Malformed_Packet, {
+      ...options,
+      packet_type: packet_type ?? options?.packet_type,
+    });
+    this.name = "MalformedPacketError";
+  }
+}
+
+/**
+ * A packet exceeds the maximum_packet_size of the receiver.
+ * 3.1.2.11.4 https://docs.oasis-open.org/mqtt/mqtt/v5.0/os/mqtt-v5.0-os.html#_Toc3901050
+ */
+export class PacketTooLargeError extends MqttProtocolError {
+  /**
+   * Creates a new PacketTooLargeError.
+   * @param size - The size of the packet in bytes
+   * @param maximum_packet_size - The maximum size accepted by the receiver
+   */
+  constructor(
+    readonly size: number,
+    readonly maximum_packet_size: number,
+  ) {
+    super(
+      `Message size is too large: ${size} bytes, the maximum_packet_size is set to ${maximum_packet_size} bytes`,
+      DisconnectReasonCode.Packet_too_large,
+    );
+    this.name = "PacketTooLargeError";
+  }
+}
+
+/**
+ * The AuthenticationProvider failed, e.g. it couldn't verify the server.
+ * The client closes the connection with a DISCONNECT using the reason_code.
+ * 4.12 https://docs.oasis-open.org/mqtt/mqtt/v5.0/os/mqtt-v5.0-os.html#_Toc3901256
+ */
+export class AuthenticationError extends MqttError {
+  /**
+   * Creates a new AuthenticationError.
+   * @param message - Describes the problem, sent as reason_string
+   * @param reason_code - The reason code for the DISCONNECT packet
+   * @param options - Optional details, see MqttError
+   */
+  constructor(
+    message: string,
+    readonly reason_code: DisconnectReasonCode =
+      DisconnectReasonCode.Not_authorized,
+    options?: ConstructorParameters<typeof MqttError>[1],
+  ) {
+    super(message, options);
+    this.name = "AuthenticationError";
+  }
+}
+
+/**
+ * A packet that should be sent is invalid, e.g. a SUBSCRIBE without subscriptions.
+ * It is a mistake of the caller and not a protocol violation of the peer, nothing was sent.
+ */
+export class InvalidPacketError extends MqttError {
+  /**
+   * Creates a new InvalidPacketError.
+   * @param message - Describes the problem
+   * @param packet_type - The type of the invalid packet, if it is known
+   */
+  constructor(message: string, readonly packet_type?: ControlPacketType) {
+    super(message);
+    this.name = "InvalidPacketError";
+  }
+}
+
+/**
+ * Error used to reject a publish or subscribe that requires a capability the server doesn't provide.
+ * Sending the packet would cause the server to close the connection.
+ */
+export class CapabilityError extends MqttError {
+  /**
+   * Creates a new CapabilityError.
+   * @param message - Describes the violation
+   * @param capability - The capability the operation requires
+   */
+  constructor(
+    message: string,
+    readonly capability: keyof ServerCapabilities,
+  ) {
+    super(message);
+    this.name = "CapabilityError";
+  }
+}
+
+/**
+ * The operation requires a connection to the server, but the client isn't connected
+ * or the connection was closed before the operation completed.
+ */
+export class NotConnectedError extends MqttError {
+  /**
+   * Creates a new NotConnectedError.
+   * @param message - Describes why the client isn't connected
+   */
+  constructor(message = "not connected") {
+    super(message);
+    this.name = "NotConnectedError";
+  }
+}
+
+/**
+ * The server rejected the connection attempt with a CONNACK packet.
+ * 3.2.2.2 https://docs.oasis-open.org/mqtt/mqtt/v5.0/os/mqtt-v5.0-os.html#_Toc3901079
+ */
+export class ConnectRejectedError extends MqttError {
+  /**
+   * Creates a new ConnectRejectedError.
+   * @param packet - The CONNACK packet with the failure reason code
+   */
+  constructor(readonly packet: ConnAckPacket) {
+    const reason_code = packet.connect_reason_code ??
+      ConnectReasonCode.Success;
+    super(
+      withReasonString(
+        `Connect rejected with ${ConnectReasonCode[reason_code]}`,
+        packet.properties?.reason_string,
+      ),
+      packet.properties,
+    );
+    this.name = "ConnectRejectedError";
+  }
+
+  /** The reason code reported by the server. */
+  get reason_code(): ConnectReasonCode {
+    return this.packet.connect_reason_code ?? ConnectReasonCode.Success;
+  }
+}
+
+/**
+ * The failure passed to the ReconnectStrategy if an established connection was lost.
+ */
+export class ConnectionLostError extends MqttError {
+  /** Creates a new ConnectionLostError. */
+  constructor() {
+    super("connection lost");
+    this.name = "ConnectionLostError";
+  }
+}
+
+/**
+ * The server redirected the client to another server with Use_another_server or Server_moved.
+ * Passed to the ReconnectStrategy before the connection attempt to the referenced server.
+ * 4.11 https://docs.oasis-open.org/mqtt/mqtt/v5.0/os/mqtt-v5.0-os.html#_Toc3901255
+ */
+export class ServerRedirectError extends MqttError {
+  /**
+   * Creates a new ServerRedirectError.
+   * @param packet - The CONNACK or DISCONNECT packet with the server_reference
+   * @param address - The address of the referenced server
+   */
+  constructor(
+    readonly packet: ConnAckPacket | DisconnectPacket,
+    readonly address: URL,
+  ) {
+    super(
+      withReasonString(
+        `Redirected to ${address}`,
+        packet.properties?.reason_string,
+      ),
+      packet.properties,
+    );
+    this.name = "ServerRedirectError";
+  }
+}
+
+/**
+ * The server rejected at least one topic filter of a SUBSCRIBE packet.
+ * The other topic filters of the packet were subscribed.
+ * 3.9.3 https://docs.oasis-open.org/mqtt/mqtt/v5.0/os/mqtt-v5.0-os.html#_Toc3901178
+ */
+export class SubscribeError extends MqttError {
+  /** The rejected topic filters with the reason codes of the server. */
+  readonly failed: { topic: TopicFilter; reason_code: SubAckReasonCode }[];
+
+  /**
+   * Creates a new SubscribeError.
+   * @param packet - The SUBACK packet with the failure reason codes
+   * @param topic_filters - The topic filters of the SUBSCRIBE packet, in the same order
+   */
+  constructor(
+    readonly packet: SubAckPacket,
+    topic_filters: readonly TopicFilter[],
+  ) {
+    const failed = topic_filters.map((topic, i) => ({
+      topic,
+      reason_code: packet.reason_codes[i] ??
+        SubAckReasonCode.Unspecified_error,
+    })).filter(({ reason_code }) => reason_code >= 0x80);
+    super(
+      withReasonString(
+        `Subscribe failed for ${
+          failed.map(({ topic, reason_code }) =>
+            `${topic} (${SubAckReasonCode[reason_code]})`
+          ).join(", ")
+        }`,
+        packet.properties?.reason_string,
+      ),
+      packet.properties,
+    );
+    this.name = "SubscribeError";
+    this.failed = failed;
+  }
+
+  /** The reason codes of all topic filters of the SUBSCRIBE packet. */
+  get reason_codes(): SubAckReasonCode[] {
+    return this.packet.reason_codes;
+  }
+}
+
+/**
+ * Error used to reject a publish if the server acknowledged it with a failure reason code.
+ * For QoS 1 the packet is the PubAck, for QoS 2 the PubRec or PubComp that reported the failure.
+ */
+export class PublishError extends MqttError {
+  /**
+   * Creates a new PublishError.
+   * @param packet - The acknowledgement packet that reported the failure
+   */
+  constructor(readonly packet: PubAckPacket | PubRecPacket | PubCompPacket) {
+    super(
+      withReasonString(
+        `Publish failed with ${ControlPacketType[packet.type]} ${
+          publishReasonCodeName(packet)
+        }`,
+        packet.properties?.reason_string,
+      ),
+      packet.properties,
+    );
+    this.name = "PublishError";
+  }
+
+  /** The reason code reported by the server. */
+  get reason_code(): PubAckReasonCode | PubRecReasonCode | PubCompReasonCode {
+    return this.packet.reason_code ?? PubAckReasonCode.Success;
+  }
+}
+
+function publishReasonCodeName(
+  packet: PubAckPacket | PubRecPacket | PubCompPacket,
+): string | undefined {
+  switch (packet.type) {
+    case ControlPacketType.PubAck:
+      return PubAckReasonCode[packet.reason_code ?? PubAckReasonCode.Success];
+    case ControlPacketType.PubRec:
+      return PubRecReasonCode[packet.reason_code ?? PubRecReasonCode.Success];
+    case ControlPacketType.PubComp:
+      return PubCompReasonCode[
+        packet.reason_code ?? PubCompReasonCode.Success
+      ];
+  }
+}
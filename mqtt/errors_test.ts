@@ -0,0 +1,95 @@
+/**
+ * Copyright 2023-2026 Bernd Amend. MIT license.
+ */
+import { assert, assertEquals, assertRejects, assertThrows } from "@std/assert";
+import { DataReader } from "../helper/mod.ts";
+import * as m from "./mod.ts";
+
+Deno.test("SubscribeError lists the rejected topic filters", () => {
+  const err = new m.SubscribeError({
+    type: m.ControlPacketType.SubAck,
+    packet_identifier: 1 as m.PacketIdentifier,
+    reason_codes: [
+      m.SubAckReasonCode.Granted_QoS_1,
+      m.SubAckReasonCode.Not_authorized,
+    ],
+    properties: {
+      reason_string: "denied",
+      user_properties: [{ key: "a", value: "b" }],
+    },
+  }, [m.asTopicFilter("a"), m.asTopicFilter("b")]);
+  assert(err instanceof m.MqttError);
+  assertEquals(err.failed, [{
+    topic: m.asTopicFilter("b"),
+    reason_code: m.SubAckReasonCode.Not_authorized,
+  }]);
+  assertEquals(err.reason_string, "denied");
+  assertEquals(err.user_properties, [{ key: "a", value: "b" }]);
+  assertEquals(err.message, "Subscribe failed for b (Not_authorized): denied");
+});
+
+Deno.test("ConnectRejectedError", () => {
+  const err = new m.ConnectRejectedError({
+    type: m.ControlPacketType.ConnAck,
+    connect_reason_code: m.ConnectReasonCode.Bad_User_Name_or_Password,
+  });
+  assertEquals(
+    err.reason_code,
+    m.ConnectReasonCode.Bad_User_Name_or_Password,
+  );
+  assertEquals(err.name, "ConnectRejectedError");
+});
+
+Deno.test("serialize and deserialize throw typed errors", () => {
+  const w = new m.Writer();
+  w.maximumPacketSize = 10;
+  const tooLarge = assertThrows(
+    () =>
+      m.serializePublishPacket(
+        { topic: m.asTopic("a"), payload: "0123456789" },
+        w,
+      ),
+    m.PacketTooLargeError,
+  );
+  assertEquals(tooLarge.reason_code, m.DisconnectReasonCode.Packet_too_large);
+  assertEquals(tooLarge.maximum_packet_size, 10);
+
+  // PubRel with invalid flags
+  const reader = new DataReader(new Uint8Array([0x60, 2, 0, 1]));
+  const malformed = assertThrows(
+    () => m.deserializePacket(m.readFixedHeader(reader)!, reader),
+    m.MalformedPacketError,
+  );
+  assertEquals(malformed.packet_type, m.ControlPacketType.PubRel);
+  assertEquals(malformed.reason_code, m.DisconnectReasonCode.Malformed_Packet);
+
+  // the PubAck is shorter than its packet identifier
+  const truncated = new DataReader(new Uint8Array([0x40, 1, 0]));
+  assertEquals(
+    assertThrows(
+      () => m.deserializePacket(m.readFixedHeader(truncated)!, truncated),
+      m.MalformedPacketError,
+    ).packet_type,
+    m.ControlPacketType.PubAck,
+  );
+});
+
+Deno.test("DeserializeStream reports malformed packets with their bytes", async () => {
+  const received: m.AllPacket[] = [];
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      // PingResp, PubRel with invalid flags, PingResp
+      controller.enqueue(new Uint8Array([0xd0, 0, 0x60, 2, 0, 1, 0xd0, 0]));
+      controller.close();
+    },
+  }).pipeThrough(new TransformStream(new m.DeserializeStream()));
+  const err = await assertRejects(async () => {
+    for await (const p of stream) {
+      received.push(p);
+    }
+  }, m.MalformedPacketError);
+  assertEquals(received, [{ type: m.ControlPacketType.PingResp }]);
+  assertEquals(err.packet_type, m.ControlPacketType.PubRel);
+  assertEquals(err.bytes, new Uint8Array([0x60, 2, 0, 1]));
+  assertEquals(err.reason_code, m.DisconnectReasonCode.Malformed_Packet);
+});
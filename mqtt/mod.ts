@@ -10,6 +10,9 @@
 /** MQTT 5.0 packet type definitions. */
 export * from "./packets.ts";
 
+/** MQTT error classes. */
+export * from "./errors.ts";
+
 /** MQTT packet serialization utilities. */
 export * from "./serialize.ts";
 
@@ -22,5 +25,41 @@ export * from "./DeserializeStream.ts";
 /** MQTT client connection source. */
 export * from "./ClientSource.ts";
 
+/** MQTT topic alias handling. */
+export * from "./TopicAlias.ts";
+
+/** MQTT client session state storage. */
+export * from "./SessionStore.ts";
+
+/** MQTT topic filter matching. */
+export * from "./TopicMatcher.ts";
+
+/** MQTT client per-subscription message streams. */
+export * from "./Subscription.ts";
+
+/** MQTT enhanced authentication. */
+export * from "./Authentication.ts";
+
+/** MQTT client offline publish queue. */
+export * from "./OfflineQueue.ts";
+
+/** MQTT server capabilities. */
+export * from "./ServerCapabilities.ts";
+
+/** MQTT client connection states. */
+export * from "./ConnectionState.ts";
+
+/** MQTT client reconnect strategies. */
+export * from "./ReconnectStrategy.ts";
+
+/** In-memory loopback transport. */
+export * from "./Loopback.ts";
+
+/** Registry of the transports used to connect to MQTT servers. */
+export * from "./Transport.ts";
+
 /** MQTT client implementation. */
 export * from "./Client.ts";
+
+/** Embeddable MQTT broker. */
+export * from "./Broker.ts";
@@ -345,3 +345,168 @@ Deno.test("serialize/deserialize DisconnectPacket", () => {
   const result = m.deserializePacket(h!, r);
   assertEquals(result, packet);
 });
+
+Deno.test("serialize/deserialize MQTT 3.1.1 packets", () => {
+  const w = new m.Writer();
+  const deserialize = (buf: Uint8Array) => {
+    const r = new DataReader(buf);
+    return m.deserializePacket(
+      m.readFixedHeader(r)!,
+      r,
+      m.PublishDeserializeOptions.UTF8String,
+      m.ProtocolVersion.MQTT_3_1_1,
+    );
+  };
+
+  // the properties are dropped and the writer switches to 3.1.1
+  const connect = m.serializeConnectPacket({
+    protocol_version: m.ProtocolVersion.MQTT_3_1_1,
+    client_id: m.asClientID("c"),
+    keepalive: 60 as m.Seconds,
+    username: "u",
+    password: "p",
+    properties: { session_expiry_interval: 60 as m.Seconds },
+  }, w);
+  assertEquals(w.protocolVersion, m.ProtocolVersion.MQTT_3_1_1);
+  assertEquals(
+    connect,
+    new Uint8Array([
+      ...[0x10, 19, 0, 4, 77, 81, 84, 84, 4, 0b1100_0010, 0, 60],
+      ...[0, 1, 99, 0, 1, 117, 0, 1, 112],
+    ]),
+  );
+  assertEquals(deserialize(connect), {
+    type: m.ControlPacketType.Connect,
+    protocol_name: "MQTT",
+    protocol_version: m.ProtocolVersion.MQTT_3_1_1,
+    clean_start: true,
+    keepalive: 60 as m.Seconds,
+    client_id: m.asClientID("c"),
+    username: "u",
+    password: "p",
+  });
+
+  // reason codes are mapped to the return codes
+  const connAck = m.serializeConnAckPacket({
+    session_present: true,
+    connect_reason_code: m.ConnectReasonCode.Banned,
+    properties: { reason_string: "banned" },
+  }, w);
+  assertEquals(connAck, new Uint8Array([0x20, 2, 1, 5]));
+  assertEquals(deserialize(connAck), {
+    type: m.ControlPacketType.ConnAck,
+    session_present: true,
+    connect_reason_code: m.ConnectReasonCode.Not_authorized,
+  });
+
+  const publish = m.serializePublishPacket({
+    topic: m.asTopic("a"),
+    qos: m.QoS.At_least_once_delivery,
+    packet_identifier: 1 as m.PacketIdentifier,
+    payload: "x",
+    properties: { message_expiry_interval: 10 as m.Seconds },
+  }, w);
+  assertEquals(publish, new Uint8Array([0x32, 6, 0, 1, 97, 0, 1, 120]));
+  assertEquals(deserialize(publish), {
+    type: m.ControlPacketType.Publish,
+    topic: m.asTopic("a"),
+    qos: m.QoS.At_least_once_delivery,
+    packet_identifier: 1 as m.PacketIdentifier,
+    payload: "x",
+  });
+
+  assertEquals(
+    m.serializePubAckPacket({
+      packet_identifier: 1 as m.PacketIdentifier,
+      reason_code: m.PubAckReasonCode.No_matching_subscribers,
+    }, w),
+    new Uint8Array([0x40, 2, 0, 1]),
+  );
+
+  assertEquals(
+    m.serializeSubscribePacket({
+      packet_identifier: 1 as m.PacketIdentifier,
+      subscriptions: [{
+        topic: m.asTopicFilter("a"),
+        qos: m.QoS.At_least_once_delivery,
+        no_local: true,
+        retain_handling: m.RetainHandling
+          .Do_not_send_retained_messages_at_the_time_of_the_subscribe,
+      }],
+      properties: { subscription_identifier: 5 },
+    }, w),
+    new Uint8Array([0x82, 6, 0, 1, 0, 1, 97, 1]),
+  );
+
+  const subAck = m.serializeSubAckPacket({
+    packet_identifier: 1 as m.PacketIdentifier,
+    reason_codes: [
+      m.SubAckReasonCode.Granted_QoS_1,
+      m.SubAckReasonCode.Not_authorized,
+    ],
+  }, w);
+  assertEquals(subAck, new Uint8Array([0x90, 4, 0, 1, 1, 0x80]));
+  assertEquals(deserialize(subAck), {
+    type: m.ControlPacketType.SubAck,
+    packet_identifier: 1 as m.PacketIdentifier,
+    reason_codes: [
+      m.SubAckReasonCode.Granted_QoS_1,
+      m.SubAckReasonCode.Unspecified_error,
+    ],
+  });
+
+  const unsubAck = m.serializeUnsubAckPacket({
+    packet_identifier: 1 as m.PacketIdentifier,
+    reason_codes: [m.UnsubAckReasonCode.Success],
+  }, w);
+  assertEquals(unsubAck, new Uint8Array([0xb0, 2, 0, 1]));
+  assertEquals(deserialize(unsubAck), {
+    type: m.ControlPacketType.UnsubAck,
+    packet_identifier: 1 as m.PacketIdentifier,
+    reason_codes: [],
+  });
+
+  assertEquals(
+    m.serializeDisconnectPacket({
+      reason_code: m.DisconnectReasonCode.Protocol_Error,
+    }, w),
+    new Uint8Array([0xe0, 0]),
+  );
+
+  assertThrows(() => m.serializeAuthPacket({}, w), m.InvalidPacketError);
+  assertThrows(
+    () => deserialize(new Uint8Array([0xf0, 0])),
+    m.MalformedPacketError,
+  );
+  assertThrows(
+    () => deserialize(new Uint8Array([0x20, 2, 0, 6])),
+    m.MalformedPacketError,
+  );
+});
+
+Deno.test("DeserializeStream uses the protocol_version of the CONNECT packet", async () => {
+  const w = new m.Writer();
+  const connect = m.serializeConnectPacket({
+    protocol_version: m.ProtocolVersion.MQTT_3_1_1,
+    client_id: m.asClientID("c"),
+  }, w);
+  const publish = m.serializePublishPacket({
+    topic: m.asTopic("a"),
+    payload: "x",
+  }, w);
+  const packets = await Array.fromAsync(
+    ReadableStream.from([connect, publish]).pipeThrough(
+      new TransformStream(
+        new m.DeserializeStream({
+          publishDeserializeOptions: m.PublishDeserializeOptions.UTF8String,
+        }),
+      ),
+    ),
+  );
+  assertEquals(packets.length, 2);
+  assertEquals(packets[1], {
+    type: m.ControlPacketType.Publish,
+    topic: m.asTopic("a"),
+    payload: "x",
+  });
+});
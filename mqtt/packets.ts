@@ -97,6 +97,29 @@ export enum Property {
   Shared_Subscription_Available = 0x2A, //	Byte	 	ConnAck
 }
 
+/**
+ * 3.1.2.2 The protocol level of the connection, selected by the CONNECT packet.
+ * MQTT 3.1.1 packets have no properties and, except for CONNACK and SUBACK, no reason codes.
+ * https://docs.oasis-open.org/mqtt/mqtt/v3.1.1/os/mqtt-v3.1.1-os.html#_Toc398718030
+ */
+export enum ProtocolVersion {
+  MQTT_3_1_1 = 4,
+  MQTT_5 = 5,
+}
+
+/**
+ * MQTT 3.1.1 3.2.2.3 The return codes of a CONNACK packet, they are mapped to ConnectReasonCode.
+ * https://docs.oasis-open.org/mqtt/mqtt/v3.1.1/os/mqtt-v3.1.1-os.html#_Toc385349256
+ */
+export enum ConnectReturnCode {
+  Connection_Accepted = 0x00,
+  Unacceptable_protocol_version = 0x01,
+  Identifier_rejected = 0x02,
+  Server_unavailable = 0x03,
+  Bad_user_name_or_password = 0x04,
+  Not_authorized = 0x05,
+}
+
 /**
  * 3.2.2.2 https://docs.oasis-open.org/mqtt/mqtt/v5.0/os/mqtt-v5.0-os.html#_Toc3901079
  */
@@ -423,7 +446,7 @@ export type AllProperties = Partial<{
 export type ConnectPacket = {
   type: ControlPacketType.Connect;
   protocol_name?: "MQTT"; // 3.1.2.1
-  protocol_version?: 5; // 3.1.2.2
+  protocol_version?: ProtocolVersion; // 3.1.2.2 - defaults to ProtocolVersion.MQTT_5
   clean_start?: boolean; // 3.1.2.4
   client_id?: ClientID; // 3.1.3.1
   username?: string; // 3.1.2.8, 3.1.3.5
@@ -1,5 +1,5 @@
 /**
- * MQTT 5.0 packet serialization utilities.
+ * MQTT 5.0 and 3.1.1 packet serialization utilities.
  *
  * @module
  * @license MIT
@@ -13,12 +13,14 @@ import {
   type ConnAckPacket,
   type ConnectPacket,
   ConnectReasonCode,
+  ConnectReturnCode,
   ControlPacketType,
   type DisconnectPacket,
   DisconnectReasonCode,
   maxFixedHeaderSize,
   PayloadFormatIndicator,
   Property,
+  ProtocolVersion,
   type PubAckPacket,
   PubAckReasonCode,
   type PubCompPacket,
@@ -31,11 +33,13 @@ import {
   QoS,
   RetainHandling,
   type SubAckPacket,
+  SubAckReasonCode,
   type SubscribePacket,
   type UnsubAckPacket,
   type UnsubscribePacket,
   type UserProperty,
 } from "./packets.ts";
+import { InvalidPacketError, PacketTooLargeError } from "./errors.ts";
 
 /**
  * MQTT packet writer extending DataWriter with MQTT-specific encoding methods.
@@ -95,7 +99,9 @@ export class Writer extends DataWriter {
    */
   addBinaryData(bin: DataReader | Uint8Array) {
     if (bin.byteLength > 65535) {
-      throw new Error(`data limit is 65535 got ${bin.byteLength}`);
+      throw new InvalidPacketError(
+        `data limit is 65535 got ${bin.byteLength}`,
+      );
     }
     this.addUint16(bin.byteLength);
     if (bin instanceof DataReader) {
@@ -120,7 +126,7 @@ export class Writer extends DataWriter {
       this.bytes.subarray(this.pos),
     );
     if (read !== str.length) {
-      throw new Error("Couldn't write the entire string");
+      throw new InvalidPacketError("Couldn't write the entire string");
     }
     this.pos = lengthPos;
     this.addUint16(written);
@@ -141,7 +147,7 @@ export class Writer extends DataWriter {
       this.bytes.subarray(this.pos),
     );
     if (read !== str.length) {
-      throw new Error("Couldn't write the entire string");
+      throw new InvalidPacketError("Couldn't write the entire string");
     }
     this.pos += written;
     return written;
@@ -176,6 +182,7 @@ export class Writer extends DataWriter {
 
   /**
    * Writes properties using a callback function.
+   * MQTT 3.1.1 packets have no properties, nothing is written for them.
    * @param prop - Properties to serialize
    * @param f - Callback function to serialize properties
    */
@@ -183,6 +190,9 @@ export class Writer extends DataWriter {
     prop: T | undefined,
     f: (tw: Writer, p: T | undefined) => void,
   ) {
+    if (this.protocolVersion === ProtocolVersion.MQTT_3_1_1) {
+      return;
+    }
     this.#internalWriter ??= new Writer({
       bufferSize: 2048,
       automaticallyExtendBuffer: true,
@@ -204,22 +214,24 @@ export class Writer extends DataWriter {
    * @param type - Control packet type
    * @param flags - Packet flags (4 bits max)
    * @returns Complete MQTT packet as Uint8Array
-   * @throws If flags exceed 4 bits or message exceeds maximum packet size
+   * @throws {InvalidPacketError} If flags exceed 4 bits
+   * @throws {PacketTooLargeError} If the message exceeds the maximum packet size
    */
   finalizeMessage(
     type: ControlPacketType,
     flags: number,
   ): Uint8Array {
     if (flags > 0xf) {
-      throw new Error("flags only allows setting up to 4 bits");
+      throw new InvalidPacketError(
+        "flags only allows setting up to 4 bits",
+        type,
+      );
     }
     const endPos = this.pos;
     const size = endPos - maxFixedHeaderSize;
 
     if (size >= this.#maximumPacketSize) {
-      throw new Error(
-        `Message size is too large: ${size} bytes, the maximum_packet_size is set to ${this.#maximumPacketSize} bytes`,
-      );
+      throw new PacketTooLargeError(size, this.#maximumPacketSize);
     }
 
     const start = maxFixedHeaderSize - 1 - this.lengthVariableByteInteger(size);
@@ -243,13 +255,19 @@ export class Writer extends DataWriter {
   set maximumPacketSize(value: number | undefined) {
     value ??= 268_435_455; // default value
     if (value < 0 || value > 268_435_455) {
-      throw new Error(
+      throw new RangeError(
         `Invalid maximum packet size: ${value}, must be between 0 and 268_435_455`,
       );
     }
     this.#maximumPacketSize = value;
   }
 
+  /**
+   * The protocol version of the serialized packets, defaults to MQTT 5.
+   * serializeConnectPacket sets it to the protocol_version of the CONNECT packet.
+   */
+  protocolVersion: ProtocolVersion = ProtocolVersion.MQTT_5;
+
   #textEncoder = new TextEncoder();
   #internalWriter: Writer | undefined;
   #maximumPacketSize = 268_435_455; //
@@ -277,6 +295,7 @@ export type MakeSerializePacketType<T extends { type: ControlPacketType }> =
 
 /**
  * 3.1 Serializes a CONNECT packet.
+ * The protocol_version is applied to the writer, the following packets of the connection use the same version.
  * @see {@link https://docs.oasis-open.org/mqtt/mqtt/v5.0/os/mqtt-v5.0-os.html#_Toc3901033}
  */
 export function serializeConnectPacket(
@@ -284,8 +303,18 @@ export function serializeConnectPacket(
   w: Writer,
 ): Uint8Array {
   w.beginMessage();
+  w.protocolVersion = packet.protocol_version ?? ProtocolVersion.MQTT_5;
+  if (
+    w.protocolVersion === ProtocolVersion.MQTT_3_1_1 &&
+    packet.password !== undefined && packet.username === undefined
+  ) {
+    // MQTT 3.1.1 3.1.2.9
+    throw new InvalidPacketError(
+      "MQTT 3.1.1 only allows a password together with a username",
+    );
+  }
   w.addUTF8String(packet.protocol_name ?? "MQTT");
-  w.addUint8(packet.protocol_version ?? 5);
+  w.addUint8(w.protocolVersion);
 
   const connectFlags = (packet.username !== undefined ? 0b1000_0000 : 0) |
     (packet.password !== undefined ? 0b0100_0000 : 0) |
@@ -341,7 +370,7 @@ export function serializeConnectPacket(
 
     if (p?.authentication_data !== undefined) {
       if (p?.authentication_method === undefined) {
-        throw new Error(
+        throw new InvalidPacketError(
           "authentication data can only be set if the authentication method is set",
         );
       }
@@ -423,13 +452,18 @@ export function serializeConnAckPacket(
     packet.connect_reason_code !== ConnectReasonCode.Server_moved &&
     packet.connect_reason_code !== ConnectReasonCode.Use_another_server
   ) {
-    throw new Error(
+    throw new InvalidPacketError(
       "server_reference can only be set if the reason_code is Server_moved or Use_another_server",
     );
   }
   // 3.2.2.1 Connect Acknowledge Flags https://docs.oasis-open.org/mqtt/mqtt/v5.0/os/mqtt-v5.0-os.html#_Toc3901077
   w.addUint8((packet.session_present ?? false) ? 1 : 0);
-  w.addUint8(packet.connect_reason_code ?? ConnectReasonCode.Success);
+  const reason_code = packet.connect_reason_code ?? ConnectReasonCode.Success;
+  w.addUint8(
+    w.protocolVersion === ProtocolVersion.MQTT_3_1_1
+      ? connectReturnCode(reason_code)
+      : reason_code,
+  );
 
   w.addProperties(packet.properties, (tw: Writer, p) => {
     if (p?.session_expiry_interval !== undefined) {
@@ -442,12 +476,12 @@ export function serializeConnAckPacket(
       tw.addUint16(p.receive_maximum);
     }
 
-    if (p?.maximum_QoS) {
+    if (p?.maximum_QoS !== undefined) {
       tw.addUint8(Property.Maximum_QoS);
       tw.addUint8(p.maximum_QoS);
     }
 
-    if (p?.retain_available) {
+    if (p?.retain_available !== undefined) {
       tw.addUint8(Property.Retain_Available);
       tw.addUint8(p.retain_available ? 1 : 0);
     }
@@ -508,7 +542,7 @@ export function serializeConnAckPacket(
 
     if (p?.authentication_data !== undefined) {
       if (p?.authentication_method === undefined) {
-        throw new Error(
+        throw new InvalidPacketError(
           "authentication data can only be set if the authentication method is set",
         );
       }
@@ -520,6 +554,28 @@ export function serializeConnAckPacket(
   return w.finalizeMessage(ControlPacketType.ConnAck, 0);
 }
 
+/**
+ * MQTT 3.1.1 3.2.2.3 Maps a reason code to the CONNACK return code with the closest meaning.
+ */
+function connectReturnCode(reason_code: ConnectReasonCode): ConnectReturnCode {
+  switch (reason_code) {
+    case ConnectReasonCode.Success:
+      return ConnectReturnCode.Connection_Accepted;
+    case ConnectReasonCode.Unsupported_Protocol_Version:
+      return ConnectReturnCode.Unacceptable_protocol_version;
+    case ConnectReasonCode.Client_Identifier_not_valid:
+      return ConnectReturnCode.Identifier_rejected;
+    case ConnectReasonCode.Bad_User_Name_or_Password:
+    case ConnectReasonCode.Bad_authentication_method:
+      return ConnectReturnCode.Bad_user_name_or_password;
+    case ConnectReasonCode.Not_authorized:
+    case ConnectReasonCode.Banned:
+      return ConnectReturnCode.Not_authorized;
+    default:
+      return ConnectReturnCode.Server_unavailable;
+  }
+}
+
 /**
  * 3.3 Serializes a PUBLISH packet.
  * @see {@link https://docs.oasis-open.org/mqtt/mqtt/v5.0/os/mqtt-v5.0-os.html#_Toc3901100}
@@ -535,12 +591,16 @@ export function serializePublishPacket(
 
   if (packet.packet_identifier !== undefined) {
     if (qos === QoS.At_most_once_delivery) {
-      throw new Error("packet_identifier can only be set for QoS !== 0");
+      throw new InvalidPacketError(
+        "packet_identifier can only be set for QoS !== 0",
+      );
     }
     w.addUint16(packet.packet_identifier);
   } else {
     if (qos !== QoS.At_most_once_delivery) {
-      throw new Error("packet_identifier are required for QoS !== 0");
+      throw new InvalidPacketError(
+        "packet_identifier are required for QoS !== 0",
+      );
     }
   }
 
@@ -612,8 +672,9 @@ export function serializePubAckPacket(
   w.beginMessage();
   w.addUint16(packet.packet_identifier!);
   if (
-    packet.reason_code !== PubAckReasonCode.Success ||
-    packet.properties !== undefined
+    w.protocolVersion !== ProtocolVersion.MQTT_3_1_1 &&
+    (packet.reason_code !== PubAckReasonCode.Success ||
+      packet.properties !== undefined)
   ) {
     w.addUint8(packet.reason_code ?? PubAckReasonCode.Success);
     w.addProperties(packet.properties, (tw, p) => {
@@ -635,8 +696,9 @@ export function serializePubRecPacket(
   w.beginMessage();
   w.addUint16(packet.packet_identifier!);
   if (
-    packet.reason_code !== PubRecReasonCode.Success ||
-    packet.properties !== undefined
+    w.protocolVersion !== ProtocolVersion.MQTT_3_1_1 &&
+    (packet.reason_code !== PubRecReasonCode.Success ||
+      packet.properties !== undefined)
   ) {
     w.addUint8(packet.reason_code ?? PubRecReasonCode.Success);
     w.addProperties(packet.properties, (tw, p) => {
@@ -658,8 +720,9 @@ export function serializePubRelPacket(
   w.beginMessage();
   w.addUint16(packet.packet_identifier!);
   if (
-    packet.reason_code !== PubRelReasonCode.Success ||
-    packet.properties !== undefined
+    w.protocolVersion !== ProtocolVersion.MQTT_3_1_1 &&
+    (packet.reason_code !== PubRelReasonCode.Success ||
+      packet.properties !== undefined)
   ) {
     w.addUint8(packet.reason_code ?? PubRelReasonCode.Success);
     w.addProperties(packet.properties, (tw, p) => {
@@ -681,8 +744,9 @@ export function serializePubCompPacket(
   w.beginMessage();
   w.addUint16(packet.packet_identifier!);
   if (
-    packet.reason_code !== PubCompReasonCode.Success ||
-    packet.properties !== undefined
+    w.protocolVersion !== ProtocolVersion.MQTT_3_1_1 &&
+    (packet.reason_code !== PubCompReasonCode.Success ||
+      packet.properties !== undefined)
   ) {
     w.addUint8(packet.reason_code ?? PubCompReasonCode.Success);
     w.addProperties(packet.properties, (tw, p) => {
@@ -703,7 +767,7 @@ export function serializeSubscribePacket(
 ): Uint8Array {
   w.beginMessage();
   if (packet.subscriptions.length === 0) {
-    throw new Error("Empty subscriptions are not allowed");
+    throw new InvalidPacketError("Empty subscriptions are not allowed");
   }
 
   w.addUint16(packet.packet_identifier);
@@ -719,6 +783,11 @@ export function serializeSubscribePacket(
 
   for (const s of packet.subscriptions) {
     w.addUTF8String(s.topic);
+    if (w.protocolVersion === ProtocolVersion.MQTT_3_1_1) {
+      // MQTT 3.1.1 3.8.3.1 the other bits are reserved
+      w.addUint8(s.qos ?? 0);
+      continue;
+    }
     const flag = (s.qos ?? 0) |
       (s.no_local ? 0b100 : 0) |
       (s.retain_as_published ? 0b1000 : 0) |
@@ -741,7 +810,7 @@ export function serializeSubAckPacket(
 ): Uint8Array {
   w.beginMessage();
   if (packet.reason_codes.length === 0) {
-    throw new Error("reason_codes cannot be empty");
+    throw new InvalidPacketError("reason_codes cannot be empty");
   }
   w.addUint16(packet.packet_identifier);
 
@@ -751,7 +820,12 @@ export function serializeSubAckPacket(
   });
 
   for (const s of packet.reason_codes) {
-    w.addUint8(s);
+    // MQTT 3.1.1 3.9.3 only knows the return code 0x80 for failures
+    w.addUint8(
+      w.protocolVersion === ProtocolVersion.MQTT_3_1_1 && s >= 0x80
+        ? SubAckReasonCode.Unspecified_error
+        : s,
+    );
   }
 
   return w.finalizeMessage(ControlPacketType.SubAck, 0);
@@ -773,7 +847,7 @@ export function serializeUnsubscribePacket(
   });
 
   if (packet.topic_filters.length === 0) {
-    throw new Error("Empty subscriptions are not allowed");
+    throw new InvalidPacketError("Empty subscriptions are not allowed");
   }
 
   for (const f of packet.topic_filters) {
@@ -785,6 +859,7 @@ export function serializeUnsubscribePacket(
 
 /**
  * 3.11 Serializes an UNSUBACK packet.
+ * MQTT 3.1.1 UNSUBACK packets only contain the packet_identifier, the reason_codes are dropped.
  * @see {@link https://docs.oasis-open.org/mqtt/mqtt/v5.0/os/mqtt-v5.0-os.html#_Toc3901187}
  */
 export function serializeUnsubAckPacket(
@@ -792,8 +867,12 @@ export function serializeUnsubAckPacket(
   w: Writer,
 ): Uint8Array {
   w.beginMessage();
+  if (w.protocolVersion === ProtocolVersion.MQTT_3_1_1) {
+    w.addUint16(packet.packet_identifier);
+    return w.finalizeMessage(ControlPacketType.UnsubAck, 0);
+  }
   if (packet.reason_codes.length === 0) {
-    throw new Error("reason_codes cannot be empty");
+    throw new InvalidPacketError("reason_codes cannot be empty");
   }
   w.addUint16(packet.packet_identifier);
 
@@ -839,6 +918,7 @@ export const PingRespMessage: Uint8Array = (() => {
 
 /**
  * 3.14 Serializes a DISCONNECT packet.
+ * MQTT 3.1.1 DISCONNECT packets are always empty, the reason_code is dropped.
  * @see {@link https://docs.oasis-open.org/mqtt/mqtt/v5.0/os/mqtt-v5.0-os.html#_Toc3901205}
  */
 export function serializeDisconnectPacket(
@@ -849,8 +929,9 @@ export function serializeDisconnectPacket(
   const reason_code = packet.reason_code ??
     DisconnectReasonCode.Normal_disconnection;
   if (
-    reason_code === DisconnectReasonCode.Normal_disconnection &&
-    packet.properties === undefined
+    w.protocolVersion === ProtocolVersion.MQTT_3_1_1 ||
+    (reason_code === DisconnectReasonCode.Normal_disconnection &&
+      packet.properties === undefined)
   ) {
     return w.finalizeMessage(ControlPacketType.Disconnect, 0);
   }
@@ -876,11 +957,15 @@ export function serializeDisconnectPacket(
 /**
  * 3.15 Serializes an AUTH packet.
  * @see {@link https://docs.oasis-open.org/mqtt/mqtt/v5.0/os/mqtt-v5.0-os.html#_Toc3901217}
+ * @throws {InvalidPacketError} if the writer uses MQTT 3.1.1, it has no AUTH packet
  */
 export function serializeAuthPacket(
   packet: MakeSerializePacketType<AuthPacket>,
   w: Writer,
 ): Uint8Array {
+  if (w.protocolVersion === ProtocolVersion.MQTT_3_1_1) {
+    throw new InvalidPacketError("AUTH packets require MQTT 5");
+  }
   w.beginMessage();
   const reason_code = packet.reason_code ?? AuthReasonCode.Success;
   if (
@@ -898,7 +983,7 @@ export function serializeAuthPacket(
 
     if (p?.authentication_data !== undefined) {
       if (p?.authentication_method === undefined) {
-        throw new Error(
+        throw new InvalidPacketError(
           "authentication data can only be set if the authentication method is set",
         );
       }